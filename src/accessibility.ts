@@ -0,0 +1,129 @@
+import type { AriaStrategy } from "./types";
+
+/**
+ * Tags whose implicit role supports naming with aria-label.
+ */
+const NAMED_TAGS = new Set([
+  "A",
+  "ARTICLE",
+  "ASIDE",
+  "BLOCKQUOTE",
+  "BUTTON",
+  "FIGURE",
+  "H1",
+  "H2",
+  "H3",
+  "H4",
+  "H5",
+  "H6",
+  "LI",
+  "NAV",
+  "SECTION",
+  "TD",
+  "TH",
+]);
+
+/**
+ * Roles for which naming with aria-label is prohibited.
+ */
+const UNNAMED_ROLES = new Set([
+  "caption",
+  "code",
+  "deletion",
+  "emphasis",
+  "generic",
+  "insertion",
+  "none",
+  "paragraph",
+  "presentation",
+  "strong",
+  "subscript",
+  "superscript",
+]);
+
+const FOCUSABLE_SELECTOR =
+  "a[href], area[href], button, input, select, textarea, iframe, [tabindex], [contenteditable]";
+
+const VISUALLY_HIDDEN_STYLE: Partial<CSSStyleDeclaration> = {
+  position: "absolute",
+  width: "1px",
+  height: "1px",
+  padding: "0",
+  margin: "-1px",
+  overflow: "hidden",
+  clip: "rect(0, 0, 0, 0)",
+  whiteSpace: "nowrap",
+  border: "0",
+};
+
+/**
+ * Checks whether the role of an element supports naming with aria-label
+ * @param element - The element to check
+ * @returns Whether an aria-label on the element is announced
+ */
+export function supportsAriaLabel(element: Element) {
+  const [role] = element.getAttribute("role")?.trim().split(/\s+/) ?? [];
+
+  if (role) {
+    return !UNNAMED_ROLES.has(role);
+  }
+
+  return NAMED_TAGS.has(element.tagName);
+}
+
+/**
+ * Keeps the text of a split element readable by assistive technology, either
+ * with an aria-label or by hiding the split content behind a visually hidden
+ * copy of the original content. Links in the copy take keyboard focus, but are
+ * clipped to a pixel, so their focus ring is not visible. Ids are removed from
+ * the copy, so that they stay unique on the split content.
+ * @param element - The split element
+ * @param aria - The strategy to use
+ * @param originalNodes - The child nodes of the element before splitting
+ * @param className - The class name to apply to the visually hidden copy
+ * @param inlineStyles - Whether to hide the copy with inline styles rather than leaving it to the class
+ */
+export function applyAccessibility(
+  element: Element,
+  aria: AriaStrategy,
+  originalNodes: Node[],
+  className: string,
+  inlineStyles = true
+) {
+  if (aria === "none") {
+    return;
+  }
+
+  if (aria === "label" || (aria === "auto" && supportsAriaLabel(element))) {
+    const text = originalNodes
+      .filter((node) => node.nodeType !== Node.COMMENT_NODE)
+      .map((node) => node.textContent)
+      .join("");
+
+    element.setAttribute("aria-label", text);
+    return;
+  }
+
+  // Hide the split content, including from keyboard navigation
+  for (const child of Array.from(element.children)) {
+    child.setAttribute("aria-hidden", "true");
+  }
+
+  for (const focusable of Array.from(
+    element.querySelectorAll(FOCUSABLE_SELECTOR)
+  )) {
+    focusable.setAttribute("tabindex", "-1");
+  }
+
+  const copy = document.createElement("span");
+  if (className) copy.className = className;
+  if (inlineStyles) Object.assign(copy.style, VISUALLY_HIDDEN_STYLE);
+  copy.append(...originalNodes.map((node) => node.cloneNode(true)));
+
+  // Fragment links and aria-labelledby keep pointing at the split content
+  for (const node of Array.from(copy.querySelectorAll("[id]"))) {
+    node.removeAttribute("id");
+  }
+
+  element.prepend(copy);
+}
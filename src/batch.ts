@@ -0,0 +1,44 @@
+import type { Steps } from "./types";
+
+/**
+ * Runs the steps of several splits in lockstep, so that every split writes to
+ * the DOM before any of them measures it, and the browser lays out the page
+ * once per measuring step instead of once per element
+ * @param steps - The steps of each split
+ * @returns The result of each split, in the order of the steps
+ */
+export function runSteps<T>(steps: Steps<T>[]) {
+  const results: T[] = [];
+  let pending = Array.from(steps.entries());
+
+  while (pending.length > 0) {
+    pending = pending.filter(([index, step]) => {
+      const { done, value } = step.next();
+
+      if (done) {
+        results[index] = value;
+      }
+
+      return !done;
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Waits until the browser is idle, or for the next frame where idle callbacks
+ * are not supported
+ * @returns A promise that resolves once the browser is idle
+ */
+export function nextIdle() {
+  return new Promise<void>((resolve) => {
+    if (typeof requestIdleCallback !== "undefined") {
+      requestIdleCallback(() => resolve());
+    } else if (typeof requestAnimationFrame !== "undefined") {
+      requestAnimationFrame(() => resolve());
+    } else {
+      setTimeout(resolve, 0);
+    }
+  });
+}
@@ -0,0 +1,133 @@
+import type { Direction, SplitItem } from "./types";
+
+/**
+ * Letters of scripts written from right to left.
+ */
+const RTL_LETTERS =
+  /[\p{Script=Hebrew}\p{Script=Arabic}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}\p{Script=Samaritan}\p{Script=Mandaic}\p{Script=Adlam}]/u;
+
+/**
+ * Letters of scripts whose letters join and change shape depending on their
+ * neighbours.
+ */
+const JOINING_LETTERS =
+  /[\p{Script=Arabic}\p{Script=Syriac}\p{Script=Nko}\p{Script=Mandaic}\p{Script=Mongolian}\p{Script=Adlam}]/u;
+
+/**
+ * European and Arabic-Indic digits, which are displayed left to right in text
+ * of either direction.
+ */
+const DIGITS = /[0-9\u0660-\u0669\u06F0-\u06F9]/;
+
+/**
+ * The attribute that marks the wrappers of isolated runs, so that they can be
+ * recognized when split markup is hydrated.
+ */
+export const ISOLATE_ATTRIBUTE = "data-isolate";
+
+/**
+ * Reads the computed direction of an element
+ * @param element - The element to read
+ * @returns The direction of the element
+ */
+export function getDirection(element: Element): Direction {
+  return getComputedStyle(element).direction === "rtl" ? "rtl" : "ltr";
+}
+
+/**
+ * Finds the direction of text from its first letter, like `dir="auto"`. Text
+ * without letters, such as numbers, dates and prices, is left to right if it
+ * has digits.
+ * @param text - The text to check
+ * @returns The direction of the text, or undefined if it has no letters or digits
+ */
+export function getTextDirection(text: string): Direction | undefined {
+  const letter = /\p{L}/u.exec(text)?.[0];
+
+  if (!letter) {
+    return DIGITS.test(text) ? "ltr" : undefined;
+  }
+
+  return RTL_LETTERS.test(letter) ? "rtl" : "ltr";
+}
+
+/**
+ * Checks whether text contains letters that join their neighbours, so that
+ * splitting it into inline-block chars would break their shapes
+ * @param text - The text to check
+ * @returns Whether the text contains joining letters
+ */
+export function hasJoiningLetters(text: string) {
+  return JOINING_LETTERS.test(text);
+}
+
+/**
+ * Wraps runs of words written against the direction of the element in
+ * elements with their direction, so that they are displayed in their own
+ * order. Inline-block words are ordered like punctuation by the bidirectional
+ * algorithm, which follows the direction of the surrounding text. The wrappers
+ * are added as the outermost ancestor of each item in the run, so that
+ * `buildFragment` creates them on every line the run is on. Numbers in a
+ * right-to-left run are isolated left to right within it.
+ * @param items - The split items, in logical order
+ * @param direction - The direction of the split element
+ */
+export function isolateRuns(items: SplitItem[], direction: Direction) {
+  let runStart: number | undefined;
+  let runEnd = 0;
+
+  const endRun = () => {
+    if (runStart === undefined) {
+      return;
+    }
+
+    const isolate = document.createElement("span");
+    isolate.dir = direction === "rtl" ? "ltr" : "rtl";
+    isolate.setAttribute(ISOLATE_ATTRIBUTE, "");
+
+    for (const item of items.slice(runStart, runEnd + 1)) {
+      item.ancestors = [isolate, ...item.ancestors];
+
+      if (direction === "ltr" && isNumber(item)) {
+        const number = document.createElement("span");
+        number.dir = "ltr";
+        number.setAttribute(ISOLATE_ATTRIBUTE, "");
+        item.ancestors.splice(1, 0, number);
+      }
+    }
+
+    runStart = undefined;
+  };
+
+  for (const [index, item] of items.entries()) {
+    if (item.type === "break") {
+      endRun();
+    } else if (item.type === "word") {
+      const wordDirection = getTextDirection(item.node.textContent ?? "");
+
+      // Numbers stay in the run of the words around them
+      if (direction === "ltr" && runStart !== undefined && isNumber(item)) {
+        continue;
+      }
+
+      if (wordDirection === direction) {
+        endRun();
+      } else if (wordDirection) {
+        runStart ??= index;
+        runEnd = index;
+      }
+    }
+  }
+
+  endRun();
+}
+
+/**
+ * Checks whether a word has digits but no letters
+ * @param item - The word to check
+ * @returns Whether the word is a number
+ */
+function isNumber(item: SplitItem) {
+  const text = item.node.textContent ?? "";
+  return !/\p{L}/u.test(text) && DIGITS.test(text);
+}
@@ -0,0 +1,135 @@
+import { splitter } from "./splitter";
+import type {
+  AriaStrategy,
+  DelimiterPlacement,
+  PartialSplitTextResult,
+  SplitTextOptions,
+  SplitType,
+} from "./types";
+
+/**
+ * The attributes of the element that are read as options.
+ */
+const OPTION_ATTRIBUTES = [
+  "types",
+  "split-by",
+  "delimiter",
+  "locale",
+  "inline",
+  "mask",
+  "aria",
+  "kerning",
+  "word-class",
+  "word-wrapper-class",
+  "line-class",
+  "char-class",
+  "mask-class",
+  "sr-only-class",
+];
+
+/**
+ * Registers a custom element that splits its own content when it is connected,
+ * so that text can be split from plain HTML. Options are read from attributes,
+ * and the content is re-split when its width, its content or the attributes
+ * change. The element is displayed as a block unless styled otherwise, as an
+ * inline element has no size to observe. The content is reverted when the
+ * element is disconnected. A `split` event with the result is dispatched after
+ * every split. Does nothing where custom elements are not supported or the
+ * name is already defined.
+ * @param name - The name of the custom element
+ */
+export function defineSplitTextElement(name = "split-text") {
+  if (typeof customElements === "undefined" || customElements.get(name)) {
+    return;
+  }
+
+  class SplitTextElement extends HTMLElement {
+    static observedAttributes = OPTION_ATTRIBUTES;
+
+    result?: PartialSplitTextResult;
+
+    private observer?: MutationObserver;
+
+    private hasDefaultDisplay = false;
+
+    connectedCallback() {
+      if (getComputedStyle(this).display === "inline") {
+        this.style.display = "block";
+        this.hasDefaultDisplay = true;
+      }
+
+      // Re-split when the content is replaced, such as by a CMS preview
+      this.observer = new MutationObserver(() => this.split());
+      this.observer.observe(this, {
+        childList: true,
+        characterData: true,
+        subtree: true,
+      });
+
+      this.split();
+    }
+
+    disconnectedCallback() {
+      this.observer?.disconnect();
+      this.observer = undefined;
+      this.result?.revert();
+      this.result = undefined;
+
+      if (this.hasDefaultDisplay) {
+        this.style.removeProperty("display");
+        this.hasDefaultDisplay = false;
+      }
+    }
+
+    attributeChangedCallback() {
+      if (this.result) {
+        this.split();
+      }
+    }
+
+    private split() {
+      const previous = this.result;
+
+      this.result = splitter(this, {
+        ...this.getOptions(),
+        autoSplit: true,
+        onSplit: (result) => {
+          // Ignore the changes splitting made to the content
+          this.observer?.takeRecords();
+          this.dispatchEvent(
+            new CustomEvent("split", { bubbles: true, detail: result })
+          );
+        },
+      });
+
+      // Stop re-splitting the previous content
+      previous?.revert();
+    }
+
+    private getOptions(): SplitTextOptions {
+      const attribute = (name: string) => this.getAttribute(name) ?? undefined;
+
+      return {
+        types: attribute("types"),
+        splitBy: attribute("split-by"),
+        delimiter: attribute("delimiter") as DelimiterPlacement | undefined,
+        locale: attribute("locale"),
+        inline: this.hasAttribute("inline"),
+        mask: attribute("mask") as SplitType | undefined,
+        // The element has no role that can be named with aria-label
+        aria: (attribute("aria") as AriaStrategy | undefined) ?? "auto",
+        kerning: this.hasAttribute("kerning"),
+        classNames: {
+          word: attribute("word-class"),
+          wordWrapper: attribute("word-wrapper-class"),
+          line: attribute("line-class"),
+          char: attribute("char-class"),
+          mask: attribute("mask-class"),
+          srOnly: attribute("sr-only-class"),
+        },
+      };
+    }
+  }
+
+  customElements.define(name, SplitTextElement);
+}
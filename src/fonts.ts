@@ -0,0 +1,51 @@
+/**
+ * Gets the font faces of the document, where the CSS Font Loading API is
+ * available
+ * @returns The font face set of the document, or undefined
+ */
+export function getFontFaceSet(): FontFaceSet | undefined {
+  return typeof document !== "undefined" && "fonts" in document
+    ? document.fonts
+    : undefined;
+}
+
+/**
+ * Waits for the font faces used by an element and its descendants to load, so
+ * that lines are measured in the fonts they are displayed in. Faces that fail
+ * to load are ignored, as the text is then displayed in a fallback font.
+ * @param element - The element whose fonts to load
+ * @returns A promise that resolves once the fonts are loaded
+ */
+export async function loadFonts(element: Element) {
+  const fontFaceSet = getFontFaceSet();
+
+  if (!fontFaceSet) {
+    return;
+  }
+
+  const text = element.textContent ?? "";
+  const fonts = new Set<string>();
+
+  for (const node of [element, ...Array.from(element.querySelectorAll("*"))]) {
+    fonts.add(getFont(getComputedStyle(node)));
+  }
+
+  await Promise.all(
+    Array.from(fonts, (font) => fontFaceSet.load(font, text).catch(() => []))
+  );
+}
+
+/**
+ * Builds the CSS `font` shorthand of a computed style, for loading and
+ * measuring the font it uses
+ * @param style - The computed style to read
+ * @returns The font shorthand
+ */
+export function getFont({
+  fontStyle,
+  fontWeight,
+  fontSize,
+  fontFamily,
+}: CSSStyleDeclaration) {
+  return `${fontStyle} ${fontWeight} ${fontSize} ${fontFamily}`;
+}
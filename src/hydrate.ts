@@ -0,0 +1,283 @@
+import { applyAccessibility } from "./accessibility";
+import { ISOLATE_ATTRIBUTE, getDirection, isolateRuns } from "./bidi";
+import { groupLines, wrapLines } from "./lines";
+import { activeSplits, getActiveSplit } from "./splitter";
+import type {
+  PartialSplitTextResult,
+  SplitItem,
+  SplitTextOptions,
+  WhiteSpace,
+} from "./types";
+import { buildTree } from "./tree";
+import {
+  ATOMIC_TAGS,
+  buildFragment,
+  createElementOptions,
+  createMask,
+  createSpan,
+  getWhiteSpace,
+  isVertical,
+  parseTypes,
+  pickTypes,
+  resolveClassNames,
+  setIndices,
+  snapshotAttributes,
+  snapshotElement,
+} from "./utils";
+
+/**
+ * Adopts word and character spans already in an element, such as markup from
+ * `splitToHTML` or a page restored from the back/forward cache, and only groups
+ * them into lines. Existing spans are recognized by their configured class
+ * names; existing lines are unwrapped and measured again.
+ */
+export function hydrator(
+  element: Element,
+  {
+    types = "chars,words,lines",
+    classNames = {},
+    tags = {},
+    attributes = {},
+    inline,
+    inlineStyles = true,
+    mask,
+    aria = "label",
+  }: SplitTextOptions = {}
+): PartialSplitTextResult {
+  const splitTypes = parseTypes(types);
+
+  const {
+    wordClass,
+    wordWrapperClass,
+    lineClass,
+    charClass,
+    srOnlyClass,
+    maskClass,
+  } = resolveClassNames(classNames, mask);
+  const elementOptions = createElementOptions(tags, attributes, inlineStyles);
+
+  const hasClass = (node: Element, className: string) =>
+    className !== "" && node.classList.contains(className);
+
+  const isChar = (node: Element) =>
+    hasClass(node, charClass) || hasClass(node, `${charClass}-delimiter`);
+
+  // Words are wrapped without a class when only chars are split and the word
+  // wrapper class is empty, unlike inline wrappers in the content, which hold
+  // words or text as well
+  const isUnclassedWord = (node: Element) =>
+    node.tagName === "SPAN" &&
+    !node.hasAttribute("class") &&
+    node.children.length > 0 &&
+    !Array.from(node.querySelectorAll("*")).some((el) =>
+      hasClass(el, wordClass)
+    ) &&
+    Array.from(node.childNodes).every(
+      (child) =>
+        child instanceof Element &&
+        (isChar(child) || (mask === "chars" && hasClass(child, maskClass)))
+    );
+
+  // Track adopted elements
+  const splitElements = {
+    chars: [] as HTMLElement[],
+    words: [] as HTMLElement[],
+    lines: [] as HTMLElement[],
+  };
+  const masks: HTMLElement[] = [];
+
+  // Words, spacers and other nodes in document order
+  const items: SplitItem[] = [];
+  let srOnlyCopy: Element | undefined;
+
+  const adoptWord = (node: Element, ancestors: Element[]) => {
+    const descendants = Array.from(node.querySelectorAll("*"));
+    const word = [node, ...descendants].find((el) => hasClass(el, wordClass));
+
+    if (word) {
+      splitElements.words.push(word as HTMLElement);
+    }
+
+    if (mask === "words" && hasClass(node, maskClass)) {
+      masks.push(node as HTMLElement);
+    }
+
+    for (const descendant of descendants) {
+      if (isChar(descendant)) {
+        splitElements.chars.push(descendant as HTMLElement);
+      } else if (mask === "chars" && hasClass(descendant, maskClass)) {
+        masks.push(descendant as HTMLElement);
+      }
+    }
+
+    items.push({ node, type: "word", ancestors });
+  };
+
+  const walk = (parent: Element, ancestors: Element[]) => {
+    let whiteSpace: WhiteSpace | undefined;
+
+    for (const node of Array.from(parent.childNodes)) {
+      if (node.nodeType === Node.TEXT_NODE) {
+        const previous = items[items.length - 1];
+        const text = node.textContent ?? "";
+
+        whiteSpace ??= getWhiteSpace(parent);
+
+        if (/\S/.test(text)) {
+          items.push({ node, type: "node", ancestors });
+        } else if (whiteSpace.breaks && /\n/.test(text)) {
+          items.push({ node, type: "break", ancestors });
+        } else if (
+          whiteSpace.spaces ||
+          (previous && previous.type !== "space" && previous.type !== "break")
+        ) {
+          items.push({ node, type: "space", ancestors });
+        }
+      } else if (!(node instanceof Element)) {
+        continue;
+      } else if (node.tagName === "BR") {
+        items.push({ node, type: "break", ancestors });
+      } else if (hasClass(node, srOnlyClass)) {
+        srOnlyCopy = node;
+      } else if (
+        hasClass(node, lineClass) ||
+        (mask === "lines" && hasClass(node, maskClass)) ||
+        node.hasAttribute(ISOLATE_ATTRIBUTE)
+      ) {
+        // Lines are measured and runs isolated again, so their content is
+        // adopted directly
+        walk(node, ancestors);
+      } else if (
+        isChar(node) ||
+        (mask === "chars" && hasClass(node, maskClass))
+      ) {
+        // Delimiters standing alone between words
+        for (const char of [node, ...Array.from(node.querySelectorAll("*"))]) {
+          if (isChar(char)) {
+            splitElements.chars.push(char as HTMLElement);
+          } else if (hasClass(char, maskClass)) {
+            masks.push(char as HTMLElement);
+          }
+        }
+
+        items.push({ node, type: "node", ancestors });
+      } else if (
+        hasClass(node, wordClass) ||
+        (mask === "words" && hasClass(node, maskClass)) ||
+        hasClass(node, wordWrapperClass) ||
+        isUnclassedWord(node)
+      ) {
+        adoptWord(node, ancestors);
+      } else if (
+        node instanceof HTMLElement &&
+        !ATOMIC_TAGS.has(node.tagName) &&
+        node.hasChildNodes()
+      ) {
+        walk(node, [...ancestors, node]);
+      } else {
+        items.push({ node, type: "node", ancestors });
+      }
+    }
+  };
+
+  walk(element, []);
+
+  // Keep words written against the direction of the element in their order
+  isolateRuns(items, getDirection(element));
+
+  const text = items.map(({ node }) => node.textContent).join("");
+  const originalNodes = srOnlyCopy
+    ? Array.from(srOnlyCopy.childNodes, (node) => node.cloneNode(true))
+    : [document.createTextNode(text)];
+
+  // Adopted nodes are moved into new wrappers, so put them back on revert
+  const restoreElement = snapshotElement(
+    element,
+    items.map(({ node }) => node)
+  );
+
+  // Indices are set on the adopted spans as well
+  const restoreAttributes = snapshotAttributes(
+    [...splitElements.chars, ...splitElements.words],
+    ["style", "data-char-index", "data-word-index", "data-line-index"]
+  );
+
+  const revert = () => {
+    restoreElement();
+    restoreAttributes();
+
+    if (activeSplits.get(element)?.revert === restoreOriginal) {
+      activeSplits.delete(element);
+    }
+  };
+
+  // An element split in the DOM before is hydrated in place of its split
+  const previous = getActiveSplit(element);
+  previous?.detach();
+
+  // Splitting again starts from the content before the split, or the text
+  const restoreOriginal = () => {
+    revert();
+
+    if (previous) {
+      activeSplits.set(element, previous);
+      previous.revert();
+    } else {
+      element.replaceChildren(
+        ...originalNodes.map((node) => node.cloneNode(true))
+      );
+    }
+  };
+
+  element.textContent = "";
+  element.appendChild(buildFragment(items));
+
+  if (splitTypes.has("lines")) {
+    const lines = groupLines(items, isVertical(element));
+    const finalFragment = wrapLines(lines, (lineItems) => {
+      const lineIndex = splitElements.lines.length;
+      const lineSpan = createSpan(
+        lineClass,
+        lineIndex,
+        inline,
+        elementOptions("line")
+      );
+
+      splitElements.lines.push(lineSpan);
+
+      lineSpan.appendChild(buildFragment(lineItems));
+
+      if (mask !== "lines") {
+        return lineSpan;
+      }
+
+      const lineMask = createMask(maskClass, lineIndex, elementOptions("mask"));
+      lineMask.appendChild(lineSpan);
+      masks.push(lineMask);
+
+      return lineMask;
+    });
+
+    // Replace content with the final structure
+    element.textContent = "";
+    element.appendChild(finalFragment);
+  }
+
+  const picked = pickTypes(splitElements, splitTypes);
+
+  setIndices(element, picked, inlineStyles);
+  applyAccessibility(element, aria, originalNodes, srOnlyClass, inlineStyles);
+
+  activeSplits.set(element, {
+    revert: restoreOriginal,
+    detach: () => {},
+    childNodes: Array.from(element.childNodes),
+  });
+
+  return {
+    ...picked,
+    ...(mask ? { masks } : {}),
+    tree: buildTree(picked),
+    revert,
+  };
+}
@@ -1,23 +1,61 @@
-import { splitter } from "./splitter";
-import type { SplitTextOptions } from "./types";
+import { nextIdle, runSteps } from "./batch";
+import { defineSplitTextElement } from "./element";
+import { loadFonts } from "./fonts";
+import { hydrator } from "./hydrate";
+import { splitter, splitterSteps } from "./splitter";
+import type {
+  DefaultSplitTypes,
+  ElementOrSelector,
+  PartialSplitTextAllResult,
+  SplitTextAllAsyncOptions,
+  SplitTextAllResult,
+  SplitTextOptions,
+  SplitTextResult,
+  SplitTypesOf,
+} from "./types";
 import { resolveElements } from "./utils";
 
+export { defineSplitTextElement } from "./element";
+export { splitToHTML } from "./ssr";
+
+export type {
+  SplitNode,
+  SplitTextAllAsyncOptions,
+  SplitTextAllResult,
+  SplitTextOptions,
+  SplitTextResult,
+  SplitType,
+} from "./types";
+
 /**
  * Splits text content of an element into characters, words, and lines.
  *
  * @param elementOrSelector - The element or selector of the element to split. If multiple elements are found, only the first will be split.
  * @param options - Options.
- * @param options.splitBy - The string to split by. Default is space.
+ * @param options.types - Comma-separated list of the levels to split into, e.g. "lines" or "words,lines". Default is "chars,words,lines".
+ * @param options.splitBy - The string or regular expression to split by, a function returning the words of a text, or "segmenter" to find word boundaries with Intl.Segmenter. Delimiters consisting only of whitespace are kept as spaces. Default is space, or "segmenter" when a locale is given.
+ * @param options.delimiter - Whether delimiters are attached to the "previous" or "next" word, or kept "standalone" between words. Default is "previous".
+ * @param options.locale - The locale used to find word boundaries with Intl.Segmenter. Default is the closest `lang` attribute.
  * @param options.classNames - Object containing class names for different elements.
  * @param options.classNames.word - The class to apply to word elements. Default is "split-word".
  * @param options.classNames.line - The class to apply to line elements. Default is "split-line".
  * @param options.classNames.char - The class to apply to character elements. Default is "split-char".
+ * @param options.classNames.mask - The class to apply to mask elements. Default is the class of the masked level followed by "-mask", e.g. "split-line-mask".
+ * @param options.tags - Object containing the tags of different elements, e.g. `{ line: "div" }`. Default is "span".
+ * @param options.attributes - Object containing extra attributes to set on word, line, char and mask elements, e.g. `{ char: { part: "char" } }`.
  * @param options.inline - Whether to use 'inline' instead of 'inline-block' for display style. Default is false.
- * @returns An object with the chars, words, and lines DOM nodes as lists.
+ * @param options.inlineStyles - Whether to set display, overflow and index custom property styles on the elements. Without them, the display must be set in CSS. Default is true.
+ * @param options.classNames.srOnly - The class to apply to the visually hidden copy of the text. Default is "split-sr-only".
+ * @param options.mask - The level ("lines", "words" or "chars") to wrap in elements that clip their overflow, for reveal animations.
+ * @param options.aria - How to keep the text accessible: "label" sets aria-label, "hidden" hides the split content behind a visually hidden copy of the original, "auto" uses aria-label only where the element's role supports it, and "none" does nothing. Default is "label".
+ * @param options.kerning - Whether to measure the kerning between adjacent chars and add it back as a margin on each char, which inline-block chars lose. Default is false.
+ * @param options.autoSplit - Whether to revert and re-split from the original content when the element's width changes or a web font finishes loading. Default is false.
+ * @param options.onSplit - Called with the result after every split, including re-splits.
+ * @returns An object with the chars, words, and lines DOM nodes as lists, limited to the requested types, the same nodes as a tree from lines to words to chars, and a revert function that restores the original markup.
  */
-export function splitText(
+export function splitText<T extends string = DefaultSplitTypes>(
   elementOrSelector: HTMLElement | string,
-  { splitBy = " ", classNames = {}, inline }: SplitTextOptions = {}
+  options: SplitTextOptions<T> = {}
 ) {
   const [element] = resolveElements(elementOrSelector);
 
@@ -25,5 +63,170 @@ export function splitText(
     throw new Error("Element not found");
   }
 
-  return splitter(element, { splitBy, classNames, inline });
+  return splitter(element, options) as SplitTextResult<SplitTypesOf<T>>;
+}
+
+/**
+ * Splits text content of an element into characters, words, and lines once the web fonts it uses have loaded, so that lines are measured in the fonts they are displayed in. Without the CSS Font Loading API, the element is split right away.
+ *
+ * @param elementOrSelector - The element or selector of the element to split. If multiple elements are found, only the first will be split.
+ * @param options - Options, as for `splitText`. With `autoSplit`, the element is also re-split whenever a web font finishes loading later.
+ * @returns A promise of the result, as for `splitText`.
+ */
+export async function splitTextAsync<T extends string = DefaultSplitTypes>(
+  elementOrSelector: HTMLElement | string,
+  options: SplitTextOptions<T> = {}
+) {
+  const [element] = resolveElements(elementOrSelector);
+
+  if (!element) {
+    throw new Error("Element not found");
+  }
+
+  await loadFonts(element);
+
+  return splitter(element, options) as SplitTextResult<SplitTypesOf<T>>;
+}
+
+/**
+ * Adopts an element that was already split, for example by `splitToHTML` on the server, instead of splitting it again. Existing word and character spans are recognized by their class names and only lines are computed.
+ *
+ * @param elementOrSelector - The element or selector of the element to hydrate. If multiple elements are found, only the first will be hydrated.
+ * @param options - Options, as for `splitText`. The class names, `mask` and `types` must match those used to split the markup. `splitBy`, `locale`, `kerning` and `autoSplit` are ignored.
+ * @returns An object with the chars, words, and lines DOM nodes as lists, limited to the requested types, and a revert function that restores the adopted markup.
+ */
+export function hydrate<T extends string = DefaultSplitTypes>(
+  elementOrSelector: HTMLElement | string,
+  options: SplitTextOptions<T> = {}
+) {
+  const [element] = resolveElements(elementOrSelector);
+
+  if (!element) {
+    throw new Error("Element not found");
+  }
+
+  return hydrator(element, options) as SplitTextResult<SplitTypesOf<T>>;
+}
+
+/**
+ * Splits text content of every matched element into characters, words, and lines. The elements are split together, writing to all of them before measuring any, so that the page is laid out once for all elements instead of once per element.
+ *
+ * @param elementOrSelector - The element, elements or selector of the elements to split.
+ * @param options - Options, as for `splitText`.
+ * @returns An object with the result for each element, the chars, words, and lines of all elements as flat lists, and a revert function that restores every element. Each split node carries the index of its element as `data-element-index`. The flat lists are kept up to date when elements are re-split.
+ */
+export function splitTextAll<T extends string = DefaultSplitTypes>(
+  elementOrSelector: ElementOrSelector,
+  options: SplitTextOptions<T> = {}
+) {
+  const elements = resolveElements(elementOrSelector);
+
+  if (elements.length === 0) {
+    throw new Error("Element not found");
+  }
+
+  const { result, steps } = splitAll(elements, options);
+
+  result.results.push(...runSteps(steps));
+  flatten(result);
+
+  return result as SplitTextAllResult<SplitTypesOf<T>>;
 }
+
+/**
+ * Splits text content of every matched element into characters, words, and lines once the web fonts they use have loaded, like `splitTextAll`. The elements can be split in chunks, one chunk each time the browser is idle, so that splitting many elements does not block the page.
+ *
+ * @param elementOrSelector - The element, elements or selector of the elements to split.
+ * @param options - Options, as for `splitText`.
+ * @param options.chunkSize - The number of elements to split together before yielding to the browser. Default is all elements at once.
+ * @param options.onProgress - Called with the number of split elements and the total after each chunk.
+ * @returns A promise of the result, as for `splitTextAll`.
+ */
+export async function splitTextAllAsync<T extends string = DefaultSplitTypes>(
+  elementOrSelector: ElementOrSelector,
+  {
+    chunkSize = Infinity,
+    onProgress,
+    ...options
+  }: SplitTextAllAsyncOptions<T> = {}
+) {
+  if (!(chunkSize >= 1)) {
+    throw new Error(`Invalid chunk size ${chunkSize}`);
+  }
+
+  const elements = resolveElements(elementOrSelector);
+
+  if (elements.length === 0) {
+    throw new Error("Element not found");
+  }
+
+  await Promise.all(elements.map(loadFonts));
+
+  const { result, steps } = splitAll(elements, options);
+
+  for (let start = 0; start < steps.length; start += chunkSize) {
+    if (start > 0) {
+      await nextIdle();
+    }
+
+    result.results.push(...runSteps(steps.slice(start, start + chunkSize)));
+    flatten(result);
+    onProgress?.(result.results.length, steps.length);
+  }
+
+  return result as SplitTextAllResult<SplitTypesOf<T>>;
+}
+
+/**
+ * Creates the combined result of splitting several elements, and the steps of splitting each element. The result of each element is added to the combined result once its steps have run.
+ */
+function splitAll(elements: Element[], options: SplitTextOptions) {
+  const { onSplit } = options;
+
+  const result: PartialSplitTextAllResult = {
+    results: [],
+    tree: [],
+    revert: () => {
+      for (const elementResult of result.results) {
+        elementResult.revert();
+      }
+    },
+  };
+
+  const steps = elements.map((element, elementIndex) =>
+    splitterSteps(element, {
+      ...options,
+      onSplit: (elementResult) => {
+        for (const node of [
+          ...(elementResult.chars ?? []),
+          ...(elementResult.words ?? []),
+          ...(elementResult.lines ?? []),
+          ...(elementResult.masks ?? []),
+        ]) {
+          node.dataset.elementIndex = elementIndex.toString();
+        }
+
+        flatten(result);
+        onSplit?.(elementResult);
+      },
+    })
+  );
+
+  return { result, steps };
+}
+
+/**
+ * Collects the chars, words, lines, masks, and trees of every element result into flat lists.
+ */
+function flatten(result: PartialSplitTextAllResult) {
+  result.tree = result.results.flatMap((result) => result.tree);
+
+  for (const type of ["chars", "words", "lines", "masks"] as const) {
+    if (result.results[0]?.[type]) {
+      result[type] = result.results.flatMap((result) => result[type] ?? []);
+    }
+  }
+}
+
+// Register <split-text> so that text can be split from plain HTML
+defineSplitTextElement();
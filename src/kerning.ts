@@ -0,0 +1,54 @@
+import { getFont } from "./fonts";
+
+/**
+ * Creates a function that measures the kerning between adjacent chars, which
+ * is lost when each char is its own inline-block. Widths are measured on a
+ * canvas in the font of the text and cached for the lifetime of the function.
+ * @returns The measuring function, or undefined if the canvas cannot measure text
+ */
+export function createKerning() {
+  const context = document.createElement("canvas").getContext("2d");
+
+  if (!context) {
+    return undefined;
+  }
+
+  const widths = new Map<string, number>();
+
+  const measure = (font: string, text: string) => {
+    const key = `${font}\n${text}`;
+    let width = widths.get(key);
+
+    if (width === undefined) {
+      context.font = font;
+      width = context.measureText(text).width;
+      widths.set(key, width);
+    }
+
+    return width;
+  };
+
+  /**
+   * Measures the kerning after each char of a word
+   * @param chars - The chars of the word
+   * @param style - The computed style of the text containing the word
+   * @returns The kerning between each char and the next one in em, or undefined if the text is not kerned
+   */
+  return (chars: string[], style: CSSStyleDeclaration) => {
+    const fontSize = parseFloat(style.fontSize);
+
+    if (style.fontKerning === "none" || !(fontSize > 0)) {
+      return undefined;
+    }
+
+    const font = getFont(style);
+
+    return chars.slice(0, -1).map((char, index) => {
+      const next = chars[index + 1] ?? "";
+      const kerning =
+        measure(font, char + next) - measure(font, char) - measure(font, next);
+
+      return kerning / fontSize;
+    });
+  };
+}
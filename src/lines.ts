@@ -0,0 +1,221 @@
+import type { SplitItem } from "./types";
+import { buildFragment } from "./utils";
+
+/**
+ * Minimum overlap of two boxes across the lines, relative to the size of the
+ * smaller one, for them to be on the same line. Tolerates mixed font sizes,
+ * `vertical-align`, superscripts and sub-pixel baselines.
+ */
+const LINE_OVERLAP = 0.5;
+
+/**
+ * The soft hyphen, which marks where a word may break with a hyphen.
+ */
+export const SOFT_HYPHEN = "\u00AD";
+
+/**
+ * The extent of a box across the lines: vertical for horizontal text, and
+ * horizontal for vertical text, whose lines are columns.
+ */
+interface Band {
+  start: number;
+  end: number;
+}
+
+/**
+ * Groups split items into lines based on the client rects of each word. A word
+ * is on the current line if it overlaps the line across the lines, so words of
+ * any size and alignment are grouped with their line, and a word before or
+ * after the line starts a new one. A word broken across lines is on the line it
+ * starts on, and the next word starts a new line. Items other than words stay
+ * on the line of the word before them, and line breaks end the line they are
+ * on. Lines are in the order of the items, so columns of vertical text are in
+ * reading order for both `vertical-rl` and `vertical-lr`.
+ * @param items - The items to group, in document order and attached to the DOM
+ * @param vertical - Whether the text is written vertically, in columns
+ * @returns The items of each line
+ */
+export function groupLines(items: SplitItem[], vertical = false) {
+  const lines: SplitItem[][] = [];
+
+  let currentLine: SplitItem[] = [];
+  let band: Band | undefined;
+  let wrapped = false;
+
+  const endLine = () => {
+    lines.push(currentLine);
+    currentLine = [];
+    band = undefined;
+    wrapped = false;
+  };
+
+  for (const item of items) {
+    if (item.type === "word") {
+      const bands = measure(item.node as Element, vertical);
+      const first = bands[0] as Band;
+      const last = bands[bands.length - 1] as Band;
+
+      // Check if word starts a new line
+      if (
+        band &&
+        currentLine.length > 0 &&
+        (wrapped || !overlaps(band, first))
+      ) {
+        endLine();
+      }
+
+      band = band
+        ? {
+            start: Math.min(band.start, first.start),
+            end: Math.max(band.end, first.end),
+          }
+        : first;
+      wrapped = !overlaps(first, last);
+    }
+
+    currentLine.push(item);
+
+    if (item.type === "break") {
+      endLine();
+    }
+  }
+
+  // Add the last line
+  if (currentLine.length > 0) {
+    lines.push(currentLine);
+  }
+
+  return lines;
+}
+
+/**
+ * Groups the child nodes of a word into the lines they are on, for words that
+ * break between their chars, such as with `overflow-wrap: anywhere` or words
+ * wider than the line. A char is on the current line if it overlaps it, like
+ * words on a line. Only the first and last chars are measured unless the word
+ * is broken. Words containing soft hyphens only break after one, if the line
+ * has one, and the rest of the line moves to the next.
+ * @param word - The word, attached to the DOM with its chars
+ * @param vertical - Whether the text is written vertically, in columns
+ * @returns The child nodes of each line, or a single line if the word is not broken
+ */
+export function groupWordLines(word: Element, vertical = false) {
+  const nodes = Array.from(word.childNodes);
+  const chars = nodes.filter(
+    (node): node is Element => node instanceof Element
+  );
+  const firstChar = chars[0];
+  const lastChar = chars[chars.length - 1];
+
+  if (
+    !firstChar ||
+    !lastChar ||
+    overlaps(
+      measure(firstChar, vertical)[0] as Band,
+      measure(lastChar, vertical)[0] as Band
+    )
+  ) {
+    return [nodes];
+  }
+
+  const lines: Node[][] = [];
+
+  let currentLine: Node[] = [];
+  let band: Band | undefined;
+
+  for (const node of nodes) {
+    if (node instanceof Element) {
+      const [first] = measure(node, vertical) as [Band];
+
+      if (band && currentLine.length > 0 && !overlaps(band, first)) {
+        lines.push(currentLine);
+        currentLine = [];
+        band = undefined;
+      }
+
+      band = band
+        ? {
+            start: Math.min(band.start, first.start),
+            end: Math.max(band.end, first.end),
+          }
+        : first;
+    }
+
+    currentLine.push(node);
+  }
+
+  lines.push(currentLine);
+
+  if (!word.textContent?.includes(SOFT_HYPHEN)) {
+    return lines;
+  }
+
+  // Move the chars after the last soft hyphen of each line to the next line
+  for (const [index, line] of lines.slice(0, -1).entries()) {
+    const hyphenIndex = line.findLastIndex(
+      (node) => node.textContent === SOFT_HYPHEN
+    );
+
+    if (hyphenIndex !== -1) {
+      lines[index + 1]?.unshift(...line.splice(hyphenIndex + 1));
+    }
+  }
+
+  return lines.filter((line) => line.length > 0);
+}
+
+/**
+ * Measures the extent across the lines of the box of an element on each line
+ * it is on, falling back to its bounding box for elements without boxes.
+ */
+function measure(element: Element, vertical: boolean): Band[] {
+  const rects = Array.from(element.getClientRects());
+
+  return (rects.length > 0 ? rects : [element.getBoundingClientRect()]).map(
+    (rect) =>
+      vertical
+        ? { start: rect.left, end: rect.right }
+        : { start: rect.top, end: rect.bottom }
+  );
+}
+
+/**
+ * Checks whether two boxes overlap enough to be on the same line.
+ */
+function overlaps(a: Band, b: Band) {
+  const overlap = Math.min(a.end, b.end) - Math.max(a.start, b.start);
+  const size = Math.min(a.end - a.start, b.end - b.start);
+
+  return overlap >= size * LINE_OVERLAP;
+}
+
+/**
+ * Wraps grouped items in line elements. Forced breaks are kept between the
+ * lines, inside their wrappers, so a line never contains one.
+ * @param lines - The items of each line, in order, as grouped by `groupLines`
+ * @param createLine - Creates the element of a line with its items, masked if lines are
+ * @returns A fragment with the lines and the breaks between them
+ */
+export function wrapLines(
+  lines: SplitItem[][],
+  createLine: (items: SplitItem[]) => Node
+) {
+  const fragment = document.createDocumentFragment();
+
+  for (const lineItems of lines) {
+    const lineBreak =
+      lineItems[lineItems.length - 1]?.type === "break"
+        ? lineItems.pop()
+        : undefined;
+
+    if (lineItems.length > 0) {
+      fragment.appendChild(createLine(lineItems));
+    }
+
+    if (lineBreak) {
+      fragment.appendChild(buildFragment([lineBreak]));
+    }
+  }
+
+  return fragment;
+}
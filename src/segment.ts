@@ -0,0 +1,218 @@
+import type { SplitBy, Token } from "./types";
+
+/**
+ * Approximates extended grapheme clusters where Intl.Segmenter is unavailable:
+ * CRLF, flag pairs, and a code point followed by combining marks, emoji
+ * modifiers, tag characters and zero-width-joined code points.
+ */
+const GRAPHEME_FALLBACK =
+  /\r\n|\p{Regional_Indicator}{2}|[\s\S](?:[\p{M}\u{1F3FB}-\u{1F3FF}\u{E0020}-\u{E007F}]|\u200D[\s\S])*/gu;
+
+/**
+ * Punctuation that belongs to the word after it, such as opening brackets,
+ * quotes and currency symbols.
+ */
+const LEADING_PUNCTUATION = /^[\p{Ps}\p{Pi}\p{Sc}¿¡]+$/u;
+
+/**
+ * Whitespace that words break at. Non-breaking spaces such as U+00A0 and
+ * U+202F keep the words around them together.
+ */
+const SPACES = /[ \t\n\r\f]+/;
+
+/**
+ * Delimiters made of breaking whitespace only, which are spaces.
+ */
+const ONLY_SPACES = new RegExp(`^${SPACES.source}$`);
+
+let graphemeSegmenter: Intl.Segmenter | undefined;
+
+const wordSegmenters = new Map<string, Intl.Segmenter>();
+
+/**
+ * Splits text into grapheme clusters, so that each visible glyph is one entry
+ * @param text - The text to split
+ * @returns The grapheme clusters of the text
+ */
+export function splitGraphemes(text: string) {
+  if (typeof Intl.Segmenter === "function") {
+    graphemeSegmenter ??= new Intl.Segmenter(undefined, {
+      granularity: "grapheme",
+    });
+
+    return Array.from(
+      graphemeSegmenter.segment(text),
+      ({ segment }) => segment
+    );
+  }
+
+  return text.match(GRAPHEME_FALLBACK) ?? [];
+}
+
+/**
+ * Splits text into words, spaces and delimiters. Delimiters consisting only of
+ * whitespace are spaces.
+ * @param text - The text to split
+ * @param splitBy - The string or pattern to split by, a function returning the words of the text, or "segmenter" to find word boundaries with Intl.Segmenter
+ * @param locale - The locale used to find word boundaries with Intl.Segmenter
+ * @returns The tokens of the text, in order
+ */
+export function tokenize(text: string, splitBy: SplitBy, locale?: string) {
+  if (splitBy === "segmenter") {
+    return segmentWords(text, locale);
+  }
+
+  const tokens: Token[] = [];
+
+  const pushWord = (word: string) => {
+    if (word) {
+      tokens.push({ type: "word", text: word });
+    }
+  };
+
+  const pushDelimiter = (delimiter: string) => {
+    if (delimiter) {
+      tokens.push({
+        type: ONLY_SPACES.test(delimiter) ? "space" : "delimiter",
+        text: delimiter,
+      });
+    }
+  };
+
+  // Spaces split words at any breaking whitespace, such as tabs and newlines
+  if (splitBy === " ") {
+    return tokenize(text, SPACES, locale);
+  }
+
+  if (typeof splitBy === "string") {
+    const words = text.split(splitBy);
+
+    for (const [wordIndex, word] of words.entries()) {
+      pushWord(word);
+
+      // Add delimiter if not the last word
+      if (wordIndex < words.length - 1) {
+        pushDelimiter(splitBy);
+      }
+    }
+
+    return tokens;
+  }
+
+  let cursor = 0;
+
+  if (typeof splitBy === "function") {
+    // Everything between the returned words is a delimiter
+    for (const word of splitBy(text)) {
+      const index = word ? text.indexOf(word, cursor) : -1;
+
+      if (index === -1) {
+        continue;
+      }
+
+      pushDelimiter(text.slice(cursor, index));
+      pushWord(word);
+      cursor = index + word.length;
+    }
+
+    pushDelimiter(text.slice(cursor));
+
+    return tokens;
+  }
+
+  const pattern = splitBy.global
+    ? splitBy
+    : new RegExp(splitBy.source, `${splitBy.flags}g`);
+
+  for (const match of text.matchAll(pattern)) {
+    const [delimiter] = match;
+
+    if (!delimiter) {
+      continue;
+    }
+
+    pushWord(text.slice(cursor, match.index));
+    pushDelimiter(delimiter);
+    cursor = match.index + delimiter.length;
+  }
+
+  pushWord(text.slice(cursor));
+
+  return tokens;
+}
+
+/**
+ * Splits text into words and spaces using locale-aware word boundaries, so
+ * that languages written without spaces are split into words. Punctuation is
+ * kept attached to the neighbouring word.
+ */
+function segmentWords(text: string, locale?: string) {
+  const tokens: Token[] = [];
+
+  if (typeof Intl.Segmenter !== "function") {
+    for (const segment of text.split(new RegExp(`(${SPACES.source})`))) {
+      if (segment) {
+        tokens.push({
+          type: ONLY_SPACES.test(segment) ? "space" : "word",
+          text: segment,
+        });
+      }
+    }
+
+    return tokens;
+  }
+
+  let segmenter = wordSegmenters.get(locale ?? "");
+
+  if (!segmenter) {
+    segmenter = new Intl.Segmenter(locale, { granularity: "word" });
+    wordSegmenters.set(locale ?? "", segmenter);
+  }
+
+  // Punctuation waiting to be attached to the next word
+  let pending = "";
+
+  const flush = () => {
+    const previous = tokens[tokens.length - 1];
+
+    if (!pending) {
+      return;
+    } else if (previous?.type === "word") {
+      previous.text += pending;
+    } else {
+      tokens.push({ type: "word", text: pending });
+    }
+
+    pending = "";
+  };
+
+  for (const { segment, isWordLike } of segmenter.segment(text)) {
+    const previous = tokens[tokens.length - 1];
+
+    if (isWordLike) {
+      // Words joined by a non-breaking space stay one word
+      if (!pending && previous?.type === "word" && /\s$/.test(previous.text)) {
+        previous.text += segment;
+      } else {
+        tokens.push({ type: "word", text: pending + segment });
+      }
+
+      pending = "";
+    } else if (ONLY_SPACES.test(segment)) {
+      flush();
+      tokens.push({ type: "space", text: segment });
+    } else if (
+      !pending &&
+      previous?.type === "word" &&
+      !LEADING_PUNCTUATION.test(segment)
+    ) {
+      previous.text += segment;
+    } else {
+      pending += segment;
+    }
+  }
+
+  flush();
+
+  return tokens;
+}
@@ -1,24 +1,273 @@
-import type { SplitTextOptions } from "./types";
-import { createSpan } from "./utils";
+import { applyAccessibility } from "./accessibility";
+import { runSteps } from "./batch";
+import { getDirection, hasJoiningLetters, isolateRuns } from "./bidi";
+import { getFontFaceSet } from "./fonts";
+import { createKerning } from "./kerning";
+import { SOFT_HYPHEN, groupLines, groupWordLines, wrapLines } from "./lines";
+import { splitGraphemes, tokenize } from "./segment";
+import type {
+  PartialSplitTextResult,
+  SplitItem,
+  SplitTextOptions,
+  SplitTextResult,
+  SplitType,
+  Steps,
+  WhiteSpace,
+} from "./types";
+import { buildTree } from "./tree";
+import {
+  ATOMIC_TAGS,
+  buildFragment,
+  createElementOptions,
+  createMask,
+  createSpan,
+  debounce,
+  getWhiteSpace,
+  isVertical,
+  parseTypes,
+  pickTypes,
+  resolveClassNames,
+  setIndices,
+  snapshotAttributes,
+  snapshotElement,
+} from "./utils";
+
+/**
+ * Delay in milliseconds between the last resize and re-splitting.
+ */
+const AUTO_SPLIT_DELAY = 100;
+
+/**
+ * The result of a split, and a function that undoes the split but keeps the
+ * styles set on the element since, for re-splitting.
+ */
+interface SplitState {
+  result: PartialSplitTextResult;
+  reset: () => void;
+}
+
+/**
+ * The revert function of the current split of each split element, a function
+ * that stops it from re-splitting, and the child nodes the split produced.
+ */
+export const activeSplits = new WeakMap<
+  Element,
+  { revert: () => void; detach: () => void; childNodes: Node[] }
+>();
+
+/**
+ * Finds the current split of an element whose content is still the content the
+ * split produced. A split whose content was replaced since is stopped and
+ * forgotten, so that the new content is split instead.
+ * @param element - The split element
+ * @returns The current split, or undefined if there is none
+ */
+export function getActiveSplit(element: Element) {
+  const active = activeSplits.get(element);
+
+  if (!active) {
+    return undefined;
+  }
+
+  const childNodes = Array.from(element.childNodes);
+
+  if (
+    childNodes.length === active.childNodes.length &&
+    childNodes.every((node, index) => node === active.childNodes[index])
+  ) {
+    return active;
+  }
+
+  active.detach();
+  activeSplits.delete(element);
+
+  return undefined;
+}
+
+/**
+ * Splits text content of a single element into characters, words, and lines,
+ * re-splitting from the original content whenever its width changes or a web
+ * font finishes loading if `autoSplit` is set.
+ *
+ * Splitting an element that is already split or hydrated first reverts the
+ * previous split, so that the element is always split from its original
+ * content. If the content was replaced since, the new content is split instead.
+ */
+export function splitter(element: Element, options: SplitTextOptions = {}) {
+  return runSteps([
+    splitterSteps(element, options),
+  ])[0] as PartialSplitTextResult;
+}
+
+/**
+ * The steps of `splitter`, for splitting several elements in lockstep with
+ * `runSteps`.
+ */
+export function* splitterSteps(
+  element: Element,
+  options: SplitTextOptions = {}
+): Steps<PartialSplitTextResult> {
+  const { autoSplit, onSplit } = options;
+
+  getActiveSplit(element)?.revert();
+
+  // Other splits revert before any of them reads styles
+  yield;
+
+  // Re-splits keep later styles, but revert restores the original ones
+  const restoreStyle = snapshotAttributes([element], ["style"]);
+  let { result: current, reset } = yield* splitSteps(element, options);
+  let observer: ResizeObserver | undefined;
+  let width: number | undefined;
+
+  // Web fonts that load late change the size of the text
+  const fonts = autoSplit ? getFontFaceSet() : undefined;
+  const onFontsLoaded = () => resplit();
+
+  const resplit = debounce(() => {
+    reset();
+    ({ result: current, reset } = split(element, options));
+
+    const { revert: _, ...splitElements } = current;
+    Object.assign(result, splitElements);
+
+    activeSplits.set(element, {
+      revert,
+      detach,
+      childNodes: Array.from(element.childNodes),
+    });
+
+    onSplit?.(result as SplitTextResult);
+  }, AUTO_SPLIT_DELAY);
+
+  // Stops re-splitting, leaving the element as it is
+  const detach = () => {
+    observer?.disconnect();
+    fonts?.removeEventListener("loadingdone", onFontsLoaded);
+    resplit.cancel();
+  };
+
+  const revert = () => {
+    detach();
+
+    // Leave the element alone once it was split again or its content replaced
+    if (activeSplits.get(element)?.revert === revert) {
+      current.revert();
+      restoreStyle();
+      activeSplits.delete(element);
+    }
+  };
+
+  const result: PartialSplitTextResult = { ...current, revert };
+
+  activeSplits.set(element, {
+    revert,
+    detach,
+    childNodes: Array.from(element.childNodes),
+  });
+
+  if (autoSplit && typeof ResizeObserver !== "undefined") {
+    observer = new ResizeObserver((entries) => {
+      const entry = entries[entries.length - 1];
+
+      if (!entry) {
+        return;
+      }
+
+      // Splitting changes the height, so only width changes re-split
+      const nextWidth = entry.contentRect.width;
+
+      if (width !== undefined && nextWidth !== width) {
+        resplit();
+      }
+
+      width = nextWidth;
+    });
+
+    observer.observe(element);
+  }
+
+  fonts?.addEventListener("loadingdone", onFontsLoaded);
+
+  onSplit?.(result as SplitTextResult);
+
+  return result;
+}
+
+/**
+ * Splits text content of a single element into characters, words, and lines
+ * in one go.
+ */
+function split(element: Element, options: SplitTextOptions) {
+  return runSteps([splitSteps(element, options)])[0] as SplitState;
+}
 
 /**
  * Splits text content of a single element into characters, words, and lines.
+ *
+ * Inline markup such as links and emphasis is preserved: each text node is
+ * split in place and its wrappers are re-created around the resulting word
+ * spans, once per line the wrapper spans. Words go on across the boundaries of
+ * inline markup until a space or delimiter, with the wrappers they cross
+ * re-created inside the word span.
+ *
+ * Only the requested `types` are materialized. Without "lines", no layout is
+ * measured. Without "words", word wrappers are unwrapped, unless chars are
+ * split, in which case they are kept with the word wrapper class to stop words
+ * from breaking across lines.
+ *
+ * The split yields between reading styles, writing to the DOM and measuring
+ * layout, so that splits of several elements can be run in lockstep by
+ * `runSteps` without forcing a layout per element.
  */
-export function splitter(
+function* splitSteps(
   element: Element,
-  { splitBy = " ", classNames = {}, inline }: SplitTextOptions = {}
-) {
-  // Use classNames with defaults if properties are not provided
-  const wordClass = classNames.word ?? "split-word";
-  const lineClass = classNames.line ?? "split-line";
-  const charClass = classNames.char ?? "split-char";
+  {
+    types = "chars,words,lines",
+    locale,
+    splitBy = locale ? "segmenter" : " ",
+    delimiter = "previous",
+    classNames = {},
+    tags = {},
+    attributes = {},
+    inline,
+    inlineStyles = true,
+    mask,
+    aria = "label",
+    kerning,
+  }: SplitTextOptions
+): Steps<SplitState> {
+  const splitTypes = parseTypes(types);
+
+  if (mask && !splitTypes.has(mask)) {
+    throw new Error(`Cannot mask "${mask}" without splitting them`);
+  }
+
+  const {
+    wordClass,
+    wordWrapperClass,
+    lineClass,
+    charClass,
+    srOnlyClass,
+    maskClass,
+  } = resolveClassNames(classNames, mask);
+  const elementOptions = createElementOptions(tags, attributes, inlineStyles);
 
-  const text = element?.textContent || "";
+  // Segment words in the language of the element unless a locale is given
+  const wordLocale =
+    locale ?? element.closest("[lang]")?.getAttribute("lang") ?? undefined;
 
-  element.setAttribute("aria-label", text);
+  // Kerning is measured horizontally, so vertical text is left alone
+  const measureKerning =
+    kerning && splitTypes.has("chars") && !isVertical(element)
+      ? createKerning()
+      : undefined;
 
-  // Create a document fragment to minimize DOM operations
-  const fragment = document.createDocumentFragment();
+  const originalNodes = Array.from(element.childNodes);
+
+  // Capture the original markup so the split can be reverted
+  const restore = snapshotElement(element);
+  const revert = () => restore();
 
   // Track split elements
   const splitElements = {
@@ -26,110 +275,479 @@ export function splitter(
     words: [] as HTMLElement[],
     lines: [] as HTMLElement[],
   };
+  const masks: HTMLElement[] = [];
 
-  // Split text into words
-  const words = text.split(splitBy);
-  const wordElements: HTMLElement[] = [];
-  const spacerElements: Node[] = [];
+  // Wraps a split element in a mask if its level is masked
+  const wrapMask = (type: SplitType, node: HTMLElement, index?: number) => {
+    if (type !== mask) {
+      return node;
+    }
 
-  // First pass: Create word and character elements
-  for (let wordIndex = 0; wordIndex < words.length; wordIndex++) {
-    const word = words[wordIndex];
+    const maskSpan = createMask(maskClass, index, elementOptions("mask"));
+    maskSpan.appendChild(node);
+    masks.push(maskSpan);
+
+    return maskSpan;
+  };
+
+  // Indexes the split elements, keeps the text accessible and builds the result
+  const finish = (): SplitState => {
+    const picked = pickTypes(splitElements, splitTypes);
 
+    setIndices(element, picked, inlineStyles);
+    applyAccessibility(element, aria, originalNodes, srOnlyClass, inlineStyles);
+
+    return {
+      result: {
+        ...picked,
+        ...(mask ? { masks } : {}),
+        tree: buildTree(picked),
+        revert,
+      },
+      reset: () => restore(true),
+    };
+  };
+
+  // Words, spacers and atomic nodes in document order
+  const items: SplitItem[] = [];
+
+  // Delimiters are split into chars like the rest of the text
+  const createDelimiter = (text: string) => {
+    if (!splitTypes.has("chars")) {
+      return document.createTextNode(text);
+    }
+
+    const delimiterSpan = createSpan(
+      `${charClass}-delimiter`,
+      undefined,
+      inline,
+      elementOptions("char")
+    );
+    delimiterSpan.textContent = text;
+    splitElements.chars.push(delimiterSpan);
+
+    return wrapMask("chars", delimiterSpan);
+  };
+
+  // The word being split, which goes on into the next text node, inside or
+  // outside of inline markup, until a space or delimiter ends it
+  let word:
+    | {
+        item: SplitItem;
+        span: HTMLElement;
+        parts: SplitItem[];
+        charCount: number;
+      }
+    | undefined;
+  let continuable = false;
+
+  // Delimiters waiting to be attached to the next word
+  let pending: SplitItem[] = [];
+
+  // The parts of words that cross inline markup, inside the wrappers of the
+  // word
+  const wordParts = new Map<SplitItem, SplitItem[]>();
+
+  // Puts the parts of the word in its span, which goes inside the wrappers
+  // all of its parts share
+  const finishWord = () => {
     if (!word) {
-      continue;
+      return;
+    }
+
+    const { item, span, parts } = word;
+    const [first] = parts;
+    let depth = 0;
+
+    while (
+      first &&
+      depth < first.ancestors.length &&
+      parts.every((part) => part.ancestors[depth] === first.ancestors[depth])
+    ) {
+      depth++;
     }
 
-    const wordSpan = createSpan(wordClass, wordIndex, inline);
+    const innerParts = parts.map((part) => ({
+      ...part,
+      ancestors: part.ancestors.slice(depth),
+    }));
 
-    splitElements.words.push(wordSpan);
-    wordElements.push(wordSpan);
+    item.ancestors = first?.ancestors.slice(0, depth) ?? item.ancestors;
+    span.appendChild(buildFragment(innerParts));
 
-    // Add characters to the word
-    for (const [charIndex, char] of Array.from(word).entries()) {
-      const charSpan = createSpan(charClass, charIndex, inline);
-      charSpan.textContent = char;
-      wordSpan.appendChild(charSpan);
-      splitElements.chars.push(charSpan);
+    if (innerParts.some((part) => part.ancestors.length > 0)) {
+      wordParts.set(item, innerParts);
     }
 
-    // Add the word to the fragment
-    fragment.appendChild(wordSpan);
+    word = undefined;
+    continuable = false;
+  };
+
+  // Ends the open word and starts a new one with the pending delimiters
+  const startWord = (ancestors: Element[]) => {
+    finishWord();
+
+    let span: HTMLElement;
+    let item: SplitItem;
+
+    if (splitTypes.has("words")) {
+      const wordIndex = splitElements.words.length;
+
+      span = createSpan(wordClass, wordIndex, inline, elementOptions("word"));
+      splitElements.words.push(span);
+      item = {
+        node: wrapMask("words", span, wordIndex),
+        type: "word",
+        ancestors,
+      };
+    } else {
+      span = createSpan(wordWrapperClass, undefined, inline, { inlineStyles });
+      item = { node: span, type: "word", ancestors };
+    }
+
+    items.push(item);
+    word = { item, span, parts: pending, charCount: 0 };
+    pending = [];
+
+    return word;
+  };
+
+  // Ends the word and adds the delimiters that did not get a next word
+  const endWord = () => {
+    finishWord();
+    items.push(...pending);
+    pending = [];
+  };
+
+  const splitSegment = (
+    data: string,
+    ancestors: Element[],
+    whiteSpace: WhiteSpace
+  ) => {
+    let style: CSSStyleDeclaration | undefined;
+
+    const tokens = tokenize(data, splitBy, wordLocale);
+
+    for (const [tokenIndex, { type, text }] of tokens.entries()) {
+      if (type === "word") {
+        // Only the first word of a text node can go on with the previous one
+        const current =
+          word && continuable && tokenIndex === 0 ? word : startWord(ancestors);
+        continuable = true;
+
+        if (!splitTypes.has("chars")) {
+          current.parts.push({
+            node: document.createTextNode(text),
+            type: "node",
+            ancestors,
+          });
+          continue;
+        }
+
+        // Inline-block chars would break the shapes of joining letters
+        const inlineChars = inline || hasJoiningLetters(text);
+
+        const chars = splitGraphemes(text);
+
+        // Inline chars are still kerned by the browser
+        style ??= getComputedStyle(ancestors[ancestors.length - 1] ?? element);
+        const kernings = inlineChars
+          ? undefined
+          : measureKerning?.(chars, style);
+
+        // Add characters to the word
+        for (const [index, char] of chars.entries()) {
+          const charIndex = current.charCount++;
+          const charSpan = createSpan(
+            charClass,
+            charIndex,
+            inlineChars,
+            elementOptions("char")
+          );
+          charSpan.textContent = char;
+          splitElements.chars.push(charSpan);
+
+          // The mask of a char is as wide as its box, so it takes the margin
+          const charNode = wrapMask("chars", charSpan, charIndex);
+          current.parts.push({ node: charNode, type: "node", ancestors });
+
+          // Pull the next char closer by the kerning it lost
+          const charKerning = Math.round((kernings?.[index] ?? 0) * 1e4);
 
-    // Add delimiter if not the last word
-    if (wordIndex < words.length - 1) {
-      if (splitBy === " ") {
-        const spaceNode = document.createTextNode(" ");
-        fragment.appendChild(spaceNode);
-        spacerElements.push(spaceNode);
+          if (charKerning !== 0) {
+            charNode.style.setProperty(
+              "margin-inline-end",
+              `${charKerning / 1e4}em`
+            );
+          }
+        }
+      } else if (type === "space") {
+        endWord();
+
+        // Collapse consecutive spaces, including across text nodes, unless
+        // white-space preserves them
+        const previous = items[items.length - 1];
+
+        if (
+          whiteSpace.spaces ||
+          (previous && previous.type !== "space" && previous.type !== "break")
+        ) {
+          items.push({
+            node: document.createTextNode(text),
+            type: "space",
+            ancestors,
+          });
+        }
       } else {
-        const delimiterSpan = createSpan(
-          `${charClass}-delimiter`,
-          undefined,
-          inline
-        );
-        delimiterSpan.textContent = splitBy;
-        wordSpan.appendChild(delimiterSpan);
-        splitElements.chars.push(delimiterSpan);
+        const delimiterItem: SplitItem = {
+          node: createDelimiter(text),
+          type: "node",
+          ancestors,
+        };
+
+        // A delimiter ends the word, but is kept with it or the next one
+        if (delimiter === "next") {
+          finishWord();
+          pending.push(delimiterItem);
+        } else if (delimiter === "previous" && word) {
+          word.parts.push(delimiterItem);
+          continuable = false;
+        } else {
+          finishWord();
+          items.push(delimiterItem);
+        }
       }
     }
-  }
+  };
 
-  // Temporarily add the fragment to the DOM to measure positions
-  element.textContent = "";
-  element.appendChild(fragment);
-
-  // Measure word positions
-  const wordData = wordElements.map((wordSpan, index) => ({
-    element: wordSpan,
-    top: wordSpan.offsetTop,
-    index,
-    spacer: index < spacerElements.length ? spacerElements[index] : null,
-  }));
-
-  // Group words into lines based on top offset
-  const lines: { elements: Node[]; lineIndex: number }[] = [];
-
-  let currentLine: Node[] = [];
-  let currentTop = wordData[0]?.top ?? 0;
-  let lineIndex = 0;
-
-  for (const { element, top, spacer } of wordData) {
-    // Check if word starts a new line
-    if (top > currentTop && currentLine.length > 0) {
-      lines.push({ elements: currentLine, lineIndex: lineIndex++ });
-      currentLine = [];
-      currentTop = top;
+  const splitTextNode = (
+    data: string,
+    ancestors: Element[],
+    whiteSpace: WhiteSpace
+  ) => {
+    // Preserved newlines are forced line breaks between the segments
+    const segments = whiteSpace.breaks ? data.split(/(\r?\n)/) : [data];
+
+    for (const [segmentIndex, segment] of segments.entries()) {
+      if (segmentIndex % 2 === 0) {
+        splitSegment(segment, ancestors, whiteSpace);
+      } else {
+        endWord();
+        items.push({
+          node: document.createTextNode(segment),
+          type: "break",
+          ancestors,
+        });
+      }
     }
+  };
 
-    currentLine.push(element);
+  const walk = (parent: Element, ancestors: Element[]) => {
+    let whiteSpace: WhiteSpace | undefined;
 
-    if (spacer) currentLine.push(spacer);
-  }
+    for (const node of Array.from(parent.childNodes)) {
+      if (node.nodeType === Node.TEXT_NODE) {
+        whiteSpace ??= getWhiteSpace(parent);
+        splitTextNode((node as Text).data, ancestors, whiteSpace);
+      } else if (node instanceof Element && node.tagName === "BR") {
+        endWord();
+        items.push({ node: node.cloneNode(true), type: "break", ancestors });
+      } else if (
+        node instanceof HTMLElement &&
+        !ATOMIC_TAGS.has(node.tagName) &&
+        node.hasChildNodes()
+      ) {
+        walk(node, [...ancestors, node]);
+      } else if (node instanceof Element) {
+        endWord();
+        items.push({ node: node.cloneNode(true), type: "node", ancestors });
+      }
+    }
+  };
+
+  // First pass: Create word and character elements
+  walk(element, []);
+  endWord();
 
-  // Add the last line
-  if (currentLine.length > 0) {
-    lines.push({ elements: currentLine, lineIndex });
+  // Keep words written against the direction of the element in their order
+  if (splitTypes.has("words") || splitTypes.has("chars")) {
+    isolateRuns(items, getDirection(element));
   }
 
-  // Create the final structure with lines
-  const finalFragment = document.createDocumentFragment();
+  // Word wrappers are only needed in the DOM for measuring and layout
+  const unwrapWord = (item: SplitItem): SplitItem[] => {
+    if (
+      item.type !== "word" ||
+      splitTypes.has("words") ||
+      splitTypes.has("chars")
+    ) {
+      return [item];
+    }
 
-  for (const { elements, lineIndex } of lines) {
-    const lineSpan = createSpan(lineClass, lineIndex, inline);
+    // Words that cross inline markup are put back in its wrappers
+    const parts = wordParts.get(item);
 
-    splitElements.lines.push(lineSpan);
+    if (parts) {
+      return parts.map((part) => ({
+        ...part,
+        ancestors: [...item.ancestors, ...part.ancestors],
+      }));
+    }
 
-    for (const node of elements) {
-      lineSpan.appendChild(node);
+    return [
+      { ...item, node: document.createTextNode(item.node.textContent ?? "") },
+    ];
+  };
+
+  // Word spans are inside their mask when words are masked
+  const getWord = (item: SplitItem) =>
+    mask === "words"
+      ? ((item.node as HTMLElement).firstElementChild as HTMLElement)
+      : (item.node as HTMLElement);
+
+  // Finds the words broken across lines between their chars
+  const measureWords = (vertical: boolean) =>
+    items.flatMap((item, index) => {
+      if (item.type !== "word") {
+        return [];
+      }
+
+      const wordLines = groupWordLines(getWord(item), vertical);
+
+      return wordLines.length > 1 ? [{ index, wordLines }] : [];
+    });
+
+  // Splits words broken across lines into a part per line, so that each part
+  // goes on its line
+  const breakWords = (
+    brokenWords: { index: number; wordLines: Node[][] }[]
+  ) => {
+    // Split from the end so that the indices of earlier items stay valid
+    for (const { index, wordLines } of [...brokenWords].reverse()) {
+      const item = items[index] as SplitItem;
+      const outer = item.node as HTMLElement;
+      const word = getWord(item);
+
+      const parts = wordLines.map((nodes, partIndex) => {
+        const part =
+          partIndex === 0 ? word : (word.cloneNode(false) as HTMLElement);
+
+        part.append(...nodes);
+
+        if (splitTypes.has("words")) {
+          part.classList.add(`${wordClass}-partial`);
+        }
+
+        // Show the hyphen of a soft hyphen the word breaks at
+        const lastNode = nodes[nodes.length - 1];
+
+        if (
+          partIndex < wordLines.length - 1 &&
+          lastNode?.textContent === SOFT_HYPHEN
+        ) {
+          let hyphen = lastNode;
+
+          while (hyphen.firstChild) {
+            hyphen = hyphen.firstChild;
+          }
+
+          hyphen.textContent = "-";
+        }
+
+        return part;
+      });
+
+      // Each part is masked like a word
+      const partNodes = parts.slice(1).map((part) => {
+        if (mask !== "words") {
+          return part;
+        }
+
+        const partMask = outer.cloneNode(false) as HTMLElement;
+        partMask.appendChild(part);
+
+        return partMask;
+      });
+
+      outer.after(...partNodes);
+      items.splice(
+        index + 1,
+        0,
+        ...partNodes.map(
+          (node): SplitItem => ({
+            node,
+            type: "word",
+            ancestors: item.ancestors,
+          })
+        )
+      );
+
+      if (splitTypes.has("words")) {
+        splitElements.words.splice(
+          splitElements.words.indexOf(word) + 1,
+          0,
+          ...parts.slice(1)
+        );
+      }
+
+      if (mask === "words") {
+        masks.splice(masks.indexOf(outer) + 1, 0, ...partNodes);
+      }
     }
+  };
+
+  const vertical = splitTypes.has("lines") && isVertical(element);
+
+  // Styles are read, so write before measuring
+  yield;
+
+  // Without lines, the items are the final structure
+  if (!splitTypes.has("lines")) {
+    element.textContent = "";
+    element.appendChild(buildFragment(items.flatMap(unwrapWord)));
 
-    finalFragment.appendChild(lineSpan);
+    return finish();
   }
 
+  // Temporarily add the items to the DOM to measure positions
+  element.textContent = "";
+  element.appendChild(buildFragment(items));
+
+  yield;
+
+  const brokenWords = splitTypes.has("chars") ? measureWords(vertical) : [];
+
+  yield;
+
+  breakWords(brokenWords);
+
+  // Lines are measured once the broken words are split
+  yield;
+
+  const lines = groupLines(items, vertical);
+
+  yield;
+
+  // Create the final structure with lines
+  const finalFragment = wrapLines(lines, (lineItems) => {
+    const lineIndex = splitElements.lines.length;
+    const lineSpan = createSpan(
+      lineClass,
+      lineIndex,
+      inline,
+      elementOptions("line")
+    );
+
+    splitElements.lines.push(lineSpan);
+
+    lineSpan.appendChild(buildFragment(lineItems.flatMap(unwrapWord)));
+
+    return wrapMask("lines", lineSpan, lineIndex);
+  });
+
   // Replace content with the final structure
   element.textContent = "";
   element.appendChild(finalFragment);
 
-  return splitElements;
+  return finish();
 }
@@ -0,0 +1,204 @@
+import { hasJoiningLetters } from "./bidi";
+import { splitGraphemes, tokenize } from "./segment";
+import type { SplitTextOptions } from "./types";
+import { parseTypes, resolveClassNames } from "./utils";
+
+const ESCAPED_CHARACTERS: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+};
+
+/**
+ * Splits text into the word and character markup `splitText` produces, without
+ * depending on the DOM, so that it can be rendered on the server. Lines depend
+ * on layout and are left to be grouped on the client with `hydrate`, which also
+ * sets the line indices and the totals.
+ *
+ * @param text - The text to split.
+ * @param options - Options, as for `splitText`. Lines, `aria`, `kerning` and `autoSplit` are ignored.
+ * @returns The HTML of the split text.
+ */
+export function splitToHTML(
+  text: string,
+  {
+    types = "chars,words",
+    locale,
+    splitBy = locale ? "segmenter" : " ",
+    delimiter = "previous",
+    classNames = {},
+    tags = {},
+    attributes = {},
+    inline,
+    inlineStyles = true,
+    mask,
+  }: SplitTextOptions = {}
+) {
+  const splitTypes = parseTypes(types);
+
+  const { wordClass, wordWrapperClass, charClass, maskClass } =
+    resolveClassNames(classNames, mask);
+
+  // Extra attributes of an element, in the order the DOM splitter sets them
+  const renderAttributes = (extra: Record<string, string> = {}) =>
+    Object.entries(extra).map(
+      ([name, value]) => `${name}="${escapeHTML(value)}"`
+    );
+
+  const renderSpan = (
+    level: "word" | "char" | undefined,
+    className: string,
+    index: number | undefined,
+    content: string,
+    masked?: boolean,
+    indices: [name: string, index: number | undefined][] = [],
+    inlineSpan = inline
+  ) => {
+    const globalIndices = indices.filter(([, index]) => index !== undefined);
+    const style = [
+      `display: ${inlineSpan ? "inline" : "inline-block"};`,
+      ...globalIndices.map(([name, index]) => `--${name}-index: ${index};`),
+    ];
+    const spanAttributes = [
+      className && `class="${escapeHTML(className)}"`,
+      index !== undefined && `data-index="${index}"`,
+      inlineStyles && `style="${style.join(" ")}"`,
+      ...renderAttributes(level && attributes[level]),
+      ...globalIndices.map(([name, index]) => `data-${name}-index="${index}"`),
+    ].filter(Boolean);
+    const tag = (level && tags[level]) ?? "span";
+    const span = `<${[tag, ...spanAttributes].join(" ")}>${content}</${tag}>`;
+
+    if (!masked) {
+      return span;
+    }
+
+    const maskAttributes = [
+      maskClass && `class="${escapeHTML(maskClass)}"`,
+      index !== undefined && `data-index="${index}"`,
+      inlineStyles && `style="display: inline-block; overflow: clip;"`,
+      ...renderAttributes(attributes.mask),
+    ].filter(Boolean);
+    const maskTag = tags.mask ?? "span";
+
+    return `<${[maskTag, ...maskAttributes].join(" ")}>${span}</${maskTag}>`;
+  };
+
+  let html = "";
+  let charIndex = 0;
+  let wordIndex = 0;
+  let word: { index?: number; content: string } | undefined;
+  let previous: "word" | "space" | "delimiter" | undefined;
+
+  // Delimiters waiting to be attached to the next word
+  let pending: string[] = [];
+
+  // Chars carry their global index and the index of the word containing them
+  const charIndices = (
+    parentIndex: number | undefined
+  ): [string, number | undefined][] => [
+    ["char", charIndex++],
+    ["word", splitTypes.has("words") ? parentIndex : undefined],
+  ];
+
+  const renderDelimiter = (text: string, parentIndex?: number) =>
+    splitTypes.has("chars")
+      ? renderSpan(
+          "char",
+          `${charClass}-delimiter`,
+          undefined,
+          escapeHTML(text),
+          mask === "chars",
+          charIndices(parentIndex)
+        )
+      : escapeHTML(text);
+
+  const flushPending = () => {
+    if (pending.length > 0) {
+      html += pending.map((text) => renderDelimiter(text)).join("");
+      previous = "delimiter";
+      pending = [];
+    }
+  };
+
+  const closeWord = () => {
+    if (!word) {
+      return;
+    }
+
+    html += splitTypes.has("words")
+      ? renderSpan(
+          "word",
+          wordClass,
+          word.index,
+          word.content,
+          mask === "words",
+          [["word", word.index]]
+        )
+      : splitTypes.has("chars")
+      ? renderSpan(undefined, wordWrapperClass, undefined, word.content)
+      : word.content;
+    word = undefined;
+  };
+
+  for (const { type, text: tokenText } of tokenize(text, splitBy, locale)) {
+    if (type === "word") {
+      closeWord();
+
+      const content =
+        pending.map((text) => renderDelimiter(text, wordIndex)).join("") +
+        (splitTypes.has("chars")
+          ? splitGraphemes(tokenText)
+              .map((char, charIndex) =>
+                renderSpan(
+                  "char",
+                  charClass,
+                  charIndex,
+                  escapeHTML(char),
+                  mask === "chars",
+                  charIndices(wordIndex),
+                  // Inline-block chars would break the shapes of joining letters
+                  inline || hasJoiningLetters(tokenText)
+                )
+              )
+              .join("")
+          : escapeHTML(tokenText));
+
+      pending = [];
+      word = splitTypes.has("words")
+        ? { index: wordIndex++, content }
+        : { content };
+      previous = "word";
+    } else if (type === "space") {
+      closeWord();
+      flushPending();
+
+      // Collapse consecutive spaces
+      if (previous && previous !== "space") {
+        html += escapeHTML(tokenText);
+        previous = "space";
+      }
+    } else if (delimiter === "next") {
+      pending.push(tokenText);
+    } else if (delimiter === "previous" && word) {
+      word.content += renderDelimiter(tokenText, word.index);
+    } else {
+      closeWord();
+      html += renderDelimiter(tokenText);
+      previous = "delimiter";
+    }
+  }
+
+  closeWord();
+  flushPending();
+
+  return html;
+}
+
+/**
+ * Escapes text for use in HTML content and attribute values.
+ */
+function escapeHTML(text: string) {
+  return text.replace(/[&<>"]/g, (char) => ESCAPED_CHARACTERS[char] ?? char);
+}
@@ -0,0 +1,83 @@
+import type { SplitNode, SplitType } from "./types";
+import { findParents, SPLIT_TYPES } from "./utils";
+
+/**
+ * Links the split elements of each level to the elements of the levels above
+ * and below, so that the result can be walked from lines to words to chars.
+ * Each node's parent is the closest containing element of a larger level, such
+ * as the line of a char when words are not split, or of a standalone delimiter.
+ * @param splitElements - The split elements of the requested levels, in document order
+ * @returns The nodes without a parent, in document order
+ */
+export function buildTree(
+  splitElements: Partial<Record<SplitType, HTMLElement[]>>
+) {
+  const levels = SPLIT_TYPES.filter((type) => splitElements[type]);
+
+  const nodes = levels.map((type) =>
+    (splitElements[type] ?? []).map(
+      (element, index): SplitNode => ({
+        type,
+        element,
+        text: element.textContent ?? "",
+        index,
+        localIndex: index,
+        children: [],
+        get rect() {
+          return element.getBoundingClientRect();
+        },
+      })
+    )
+  );
+
+  for (const [level, levelNodes] of nodes.entries()) {
+    for (const parentNodes of nodes.slice(level + 1)) {
+      const orphans = levelNodes.filter((node) => !node.parent);
+      const parentIndices = findParents(
+        orphans.map(({ element }) => element),
+        parentNodes.map(({ element }) => element)
+      );
+
+      for (const [index, parentIndex] of parentIndices.entries()) {
+        const node = orphans[index];
+        const parent =
+          parentIndex === undefined ? undefined : parentNodes[parentIndex];
+
+        if (node && parent) {
+          node.parent = parent;
+          parent.children.push(node);
+        }
+      }
+    }
+  }
+
+  const allNodes = nodes.flat();
+
+  // Children of different levels, such as standalone delimiters between the
+  // words of a line, were added level by level
+  for (const node of allNodes) {
+    if (new Set(node.children.map(({ type }) => type)).size > 1) {
+      node.children.sort(byDocumentOrder);
+    }
+
+    for (const [localIndex, child] of node.children.entries()) {
+      child.localIndex = localIndex;
+    }
+  }
+
+  const roots = allNodes.filter((node) => !node.parent);
+
+  return roots.some(({ type }) => type !== levels[levels.length - 1])
+    ? roots.sort(byDocumentOrder)
+    : roots;
+}
+
+/**
+ * Compares two nodes by the position of their elements in the document.
+ */
+function byDocumentOrder(a: SplitNode, b: SplitNode) {
+  return a.element.compareDocumentPosition(b.element) &
+    Node.DOCUMENT_POSITION_FOLLOWING
+    ? -1
+    : 1;
+}
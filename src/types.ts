@@ -20,12 +20,119 @@ export interface SelectorCache {
 
 export interface ClassNames {
   word?: string;
+  wordWrapper?: string;
   line?: string;
   char?: string;
+  mask?: string;
+  srOnly?: string;
 }
 
-export interface SplitTextOptions {
-  splitBy?: string;
+export interface Tags {
+  word?: string;
+  line?: string;
+  char?: string;
+  mask?: string;
+}
+
+export interface Attributes {
+  word?: Record<string, string>;
+  line?: Record<string, string>;
+  char?: Record<string, string>;
+  mask?: Record<string, string>;
+}
+
+export interface ElementOptions {
+  tag?: string;
+  attributes?: Record<string, string>;
+  inlineStyles?: boolean;
+}
+
+export type AriaStrategy = "auto" | "label" | "hidden" | "none";
+
+export type SplitType = "chars" | "words" | "lines";
+
+export type DefaultSplitTypes = "chars,words,lines";
+
+export type SplitTypesOf<T extends string> = string extends T
+  ? SplitType
+  : {
+      [K in SplitType]: T extends `${string}${K}${string}` ? K : never;
+    }[SplitType];
+
+export type SplitBy = string | RegExp | ((text: string) => string[]);
+
+export type DelimiterPlacement = "previous" | "next" | "standalone";
+
+export interface SplitTextOptions<T extends string = string> {
+  types?: T;
+  splitBy?: SplitBy;
+  delimiter?: DelimiterPlacement;
+  locale?: string;
   classNames?: ClassNames;
+  tags?: Tags;
+  attributes?: Attributes;
   inline?: boolean;
+  inlineStyles?: boolean;
+  mask?: SplitType;
+  aria?: AriaStrategy;
+  kerning?: boolean;
+  autoSplit?: boolean;
+  onSplit?(result: SplitTextResult<SplitTypesOf<T>>): void;
+}
+
+export interface SplitTextAllAsyncOptions<T extends string = string>
+  extends SplitTextOptions<T> {
+  chunkSize?: number;
+  onProgress?(done: number, total: number): void;
+}
+
+export type SplitTextResult<L extends SplitType = SplitType> = {
+  [K in L]: HTMLElement[];
+} & {
+  masks?: HTMLElement[];
+  tree: SplitNode[];
+  revert: () => void;
+};
+
+export interface SplitNode {
+  type: SplitType;
+  element: HTMLElement;
+  text: string;
+  index: number;
+  localIndex: number;
+  parent?: SplitNode;
+  children: SplitNode[];
+  readonly rect: DOMRect;
+}
+
+export type PartialSplitTextResult = SplitTextResult<never> &
+  Partial<SplitTextResult>;
+
+export interface SplitItem {
+  node: Node;
+  type: "word" | "space" | "break" | "node";
+  ancestors: Element[];
+}
+
+export type Steps<T> = Generator<void, T, void>;
+
+export type Direction = "ltr" | "rtl";
+
+export interface WhiteSpace {
+  spaces: boolean;
+  breaks: boolean;
+}
+
+export type SplitTextAllResult<L extends SplitType = SplitType> =
+  SplitTextResult<L> & {
+    results: SplitTextResult<L>[];
+  };
+
+export type PartialSplitTextAllResult = PartialSplitTextResult & {
+  results: PartialSplitTextResult[];
+};
+
+export interface Token {
+  type: "word" | "space" | "delimiter";
+  text: string;
 }
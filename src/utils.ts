@@ -1,10 +1,44 @@
 import type {
   AnimationScope,
+  Attributes,
+  ClassNames,
+  ElementOptions,
   ElementOrSelector,
   SelectorCache,
+  SplitItem,
+  SplitType,
+  Tags,
+  WhiteSpace,
   WithQuerySelectorAll,
 } from "./types";
 
+/**
+ * The split levels, from the smallest to the largest.
+ */
+export const SPLIT_TYPES = ["chars", "words", "lines"] as const;
+
+/**
+ * The name of a single element of each split level, used in attributes and
+ * custom properties.
+ */
+const LEVEL_NAMES = { chars: "char", words: "word", lines: "line" } as const;
+
+/**
+ * Elements whose content is never split and which are copied as a whole.
+ */
+export const ATOMIC_TAGS = new Set([
+  "AUDIO",
+  "CANVAS",
+  "IFRAME",
+  "OBJECT",
+  "SCRIPT",
+  "SELECT",
+  "STYLE",
+  "TEMPLATE",
+  "TEXTAREA",
+  "VIDEO",
+]);
+
 export function resolveElements(
   elementOrSelector: ElementOrSelector,
   scope?: AnimationScope,
@@ -31,21 +65,382 @@ export function resolveElements(
   return Array.from(elementOrSelector);
 }
 
+/**
+ * Fills in the default class names of the created elements
+ * @param classNames - The class names given in the options
+ * @param mask - The masked level, whose class the mask class is derived from
+ * @returns The class name of each level, of the word wrappers kept when only chars are split, of the masks and of the visually hidden copy
+ */
+export function resolveClassNames(classNames: ClassNames, mask?: SplitType) {
+  const wordClass = classNames.word ?? "split-word";
+  const wordWrapperClass = classNames.wordWrapper ?? "split-word-wrapper";
+  const lineClass = classNames.line ?? "split-line";
+  const charClass = classNames.char ?? "split-char";
+  const srOnlyClass = classNames.srOnly ?? "split-sr-only";
+  const levelClasses = { chars: charClass, words: wordClass, lines: lineClass };
+  const maskClass = classNames.mask ?? `${levelClasses[mask ?? "lines"]}-mask`;
+
+  return {
+    wordClass,
+    wordWrapperClass,
+    lineClass,
+    charClass,
+    srOnlyClass,
+    maskClass,
+  };
+}
+
+/**
+ * Creates a function that returns the options of the created elements of a
+ * level
+ * @param tags - The tag of each level
+ * @param attributes - The extra attributes of each level
+ * @param inlineStyles - Whether to set inline styles
+ * @returns A function that returns the tag, extra attributes and inline styles of a level
+ */
+export function createElementOptions(
+  tags: Tags,
+  attributes: Attributes,
+  inlineStyles: boolean
+) {
+  return (level: keyof Tags): ElementOptions => ({
+    tag: tags[level],
+    attributes: attributes[level],
+    inlineStyles,
+  });
+}
+
 /**
  * Creates a span element with specified class and optional index attribute
  * @param className - The class name to apply to the span
  * @param index - Optional index to set as a data attribute
  * @param inline - Whether to use 'inline' instead of 'inline-block' for display style
+ * @param options - The tag and extra attributes of the element, and whether to set its display style
  * @returns The created span element
  */
 export function createSpan(
   className: string,
   index?: number,
-  inline?: boolean
+  inline?: boolean,
+  { tag = "span", attributes = {}, inlineStyles = true }: ElementOptions = {}
 ) {
-  const span = document.createElement("span");
+  const span = document.createElement(tag);
   if (className) span.className = className;
   if (index !== undefined) span.dataset.index = index.toString();
-  span.style.display = inline ? "inline" : "inline-block";
+  if (inlineStyles) span.style.display = inline ? "inline" : "inline-block";
+  for (const [name, value] of Object.entries(attributes)) {
+    span.setAttribute(name, value);
+  }
   return span;
 }
+
+/**
+ * Creates a span that clips its content, for reveal animations
+ * @param className - The class name to apply to the mask
+ * @param index - Optional index to set as a data attribute
+ * @param options - The tag and extra attributes of the mask, and whether to set its display and overflow styles
+ * @returns The created mask element
+ */
+export function createMask(
+  className: string,
+  index?: number,
+  options: ElementOptions = {}
+) {
+  const mask = createSpan(className, index, false, options);
+  if (options.inlineStyles ?? true) {
+    mask.style.overflow = "hidden";
+    mask.style.overflow = "clip";
+  }
+  return mask;
+}
+
+/**
+ * Builds a fragment from split items, re-creating the inline wrappers (links,
+ * emphasis, etc.) each item was originally nested in
+ * @param items - The items to append, in document order
+ * @returns The fragment containing the items
+ */
+export function buildFragment(items: SplitItem[]) {
+  const fragment = document.createDocumentFragment();
+  const open: { source: Element; clone: Node }[] = [];
+
+  for (const { node, ancestors } of items) {
+    // Keep the wrappers shared with the previous item open
+    let depth = 0;
+
+    while (
+      depth < open.length &&
+      depth < ancestors.length &&
+      open[depth]?.source === ancestors[depth]
+    ) {
+      depth++;
+    }
+
+    open.length = depth;
+
+    // Open shallow copies of the remaining wrappers
+    for (const source of ancestors.slice(depth)) {
+      const clone = source.cloneNode(false);
+      (open[open.length - 1]?.clone ?? fragment).appendChild(clone);
+      open.push({ source, clone });
+    }
+
+    (open[open.length - 1]?.clone ?? fragment).appendChild(node);
+  }
+
+  return fragment;
+}
+
+/**
+ * Captures the child nodes and attributes of an element that splitting modifies
+ * @param element - The element to capture
+ * @param movedNodes - Optional descendants that are moved by splitting and must be put back in place
+ * @returns A function that restores the element to the captured state, or with `keepStyle` restores only the custom properties of the style
+ */
+export function snapshotElement(element: Element, movedNodes: Node[] = []) {
+  const childNodes = Array.from(element.childNodes);
+  const positions = movedNodes.map((node) => ({
+    node,
+    parent: node.parentNode,
+    nextSibling: node.nextSibling,
+  }));
+  const restoreAttributes = snapshotAttributes(
+    [element],
+    [
+      "aria-label",
+      ...SPLIT_TYPES.map((type) => `data-${LEVEL_NAMES[type]}-total`),
+    ]
+  );
+  const restoreStyle = snapshotAttributes([element], ["style"]);
+  const { style } = element as HTMLElement;
+  const totals = SPLIT_TYPES.map((type) => {
+    const name = `--${LEVEL_NAMES[type]}-total`;
+    return [name, style.getPropertyValue(name)] as const;
+  });
+
+  return (keepStyle = false) => {
+    element.replaceChildren(...childNodes);
+
+    // Restore in reverse so that each next sibling is already back in place
+    for (const { node, parent, nextSibling } of [...positions].reverse()) {
+      parent?.insertBefore(node, nextSibling);
+    }
+
+    restoreAttributes();
+
+    if (!keepStyle) {
+      restoreStyle();
+      return;
+    }
+
+    for (const [name, value] of totals) {
+      if (value) {
+        style.setProperty(name, value);
+      } else {
+        style.removeProperty(name);
+      }
+    }
+  };
+}
+
+/**
+ * Captures attributes of elements that splitting modifies
+ * @param elements - The elements to capture
+ * @param names - The names of the attributes to capture
+ * @returns A function that restores the attributes, removing those that were not set
+ */
+export function snapshotAttributes(elements: Element[], names: string[]) {
+  const snapshots = elements.map((element) => ({
+    element,
+    values: names.map((name) => [name, element.getAttribute(name)] as const),
+  }));
+
+  return () => {
+    for (const { element, values } of snapshots) {
+      for (const [name, value] of values) {
+        if (value === null) {
+          element.removeAttribute(name);
+        } else {
+          element.setAttribute(name, value);
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Reads whether the computed `white-space` of an element preserves whitespace
+ * @param element - The element to read
+ * @returns Whether runs of spaces and line breaks are preserved
+ */
+export function getWhiteSpace(element: Element): WhiteSpace {
+  const { whiteSpace } = getComputedStyle(element);
+  const spaces = ["pre", "pre-wrap", "break-spaces"].includes(whiteSpace);
+
+  return { spaces, breaks: spaces || whiteSpace === "pre-line" };
+}
+
+/**
+ * Reads whether the computed `writing-mode` of an element is vertical, so that
+ * its lines are columns
+ * @param element - The element to read
+ * @returns Whether the element is written vertically
+ */
+export function isVertical(element: Element) {
+  return /^(vertical|sideways|tb)/.test(getComputedStyle(element).writingMode);
+}
+
+/**
+ * Sets the index of each split element among all elements of its level, and
+ * the index of the word and line containing it, as `data-char-index`,
+ * `data-word-index` and `data-line-index` attributes and `--char-index`,
+ * `--word-index` and `--line-index` custom properties. The totals of each level
+ * are set on the split element as `data-char-total`, `data-word-total` and
+ * `data-line-total` attributes and `--char-total`, `--word-total` and
+ * `--line-total` custom properties, which every span inherits. Custom
+ * properties are only set with inline styles.
+ * @param element - The split element
+ * @param splitElements - The split elements of the requested levels, in document order
+ * @param inlineStyles - Whether to set the custom properties
+ */
+export function setIndices(
+  element: Element,
+  splitElements: Partial<Record<SplitType, HTMLElement[]>>,
+  inlineStyles = true
+) {
+  const setIndex = (node: HTMLElement, type: SplitType, index: number) => {
+    node.dataset[`${LEVEL_NAMES[type]}Index`] = index.toString();
+
+    if (inlineStyles) {
+      node.style.setProperty(`--${LEVEL_NAMES[type]}-index`, index.toString());
+    }
+  };
+
+  for (const [level, type] of SPLIT_TYPES.entries()) {
+    const nodes = splitElements[type];
+
+    if (!nodes) {
+      continue;
+    }
+
+    (element as HTMLElement).dataset[`${LEVEL_NAMES[type]}Total`] =
+      nodes.length.toString();
+
+    if (inlineStyles) {
+      (element as HTMLElement).style.setProperty(
+        `--${LEVEL_NAMES[type]}-total`,
+        nodes.length.toString()
+      );
+    }
+
+    for (const [index, node] of nodes.entries()) {
+      setIndex(node, type, index);
+    }
+
+    for (const parentType of SPLIT_TYPES.slice(level + 1)) {
+      const parents = splitElements[parentType];
+
+      if (!parents) {
+        continue;
+      }
+
+      for (const [index, parentIndex] of findParents(
+        nodes,
+        parents
+      ).entries()) {
+        const node = nodes[index];
+
+        // Standalone delimiters are not part of any word
+        if (node && parentIndex !== undefined) {
+          setIndex(node, parentType, parentIndex);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Finds the element containing each of a list of elements
+ * @param nodes - The contained elements, in document order
+ * @param parents - The possible containing elements, in document order
+ * @returns The index of the parent containing each element, or undefined if none does
+ */
+export function findParents(nodes: Element[], parents: Element[]) {
+  let parentIndex = 0;
+
+  return nodes.map((node) => {
+    // Both lists are in document order, so skip parents ending before it
+    while (
+      parentIndex < parents.length - 1 &&
+      !parents[parentIndex]?.contains(node) &&
+      (parents[parentIndex]?.compareDocumentPosition(node) ?? 0) &
+        Node.DOCUMENT_POSITION_FOLLOWING
+    ) {
+      parentIndex++;
+    }
+
+    return parents[parentIndex]?.contains(node) ? parentIndex : undefined;
+  });
+}
+
+/**
+ * Delays calls to a function until it has not been called for a while
+ * @param callback - The function to debounce
+ * @param wait - The delay in milliseconds
+ * @returns The debounced function, with a cancel method to drop a pending call
+ */
+export function debounce<T extends unknown[]>(
+  callback: (...args: T) => void,
+  wait: number
+) {
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+
+  const debounced = (...args: T) => {
+    clearTimeout(timeout);
+    timeout = setTimeout(() => callback(...args), wait);
+  };
+
+  debounced.cancel = () => clearTimeout(timeout);
+
+  return debounced;
+}
+
+/**
+ * Parses a comma-separated list of split types
+ * @param types - The list of split types, e.g. "words,lines"
+ * @returns The set of split types
+ */
+export function parseTypes(types: string) {
+  const splitTypes = new Set<SplitType>();
+
+  for (const type of types.split(",")) {
+    const trimmed = type.trim();
+
+    if (trimmed !== "chars" && trimmed !== "words" && trimmed !== "lines") {
+      throw new Error(`Unknown split type "${trimmed}"`);
+    }
+
+    splitTypes.add(trimmed);
+  }
+
+  return splitTypes;
+}
+
+/**
+ * Keeps only the requested levels of the split elements
+ * @param splitElements - The split elements of every level
+ * @param splitTypes - The requested levels
+ * @returns The split elements of the requested levels
+ */
+export function pickTypes(
+  splitElements: Record<SplitType, HTMLElement[]>,
+  splitTypes: Set<SplitType>
+) {
+  const picked: Partial<Record<SplitType, HTMLElement[]>> = {};
+
+  for (const type of splitTypes) {
+    picked[type] = splitElements[type];
+  }
+
+  return picked;
+}
@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { hydrate, splitText, splitToHTML } from "../src/index";
+import { stubLineTops } from "./stub-layout";
+
+describe("hydrate", () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    container.id = "hydrate-container";
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    document.body.removeChild(container);
+  });
+
+  it("should adopt server-rendered words and chars", () => {
+    container.innerHTML = splitToHTML("Hello big world");
+    const serverWords = Array.from(container.querySelectorAll(".split-word"));
+    const serverChars = Array.from(container.querySelectorAll(".split-char"));
+
+    const result = hydrate("#hydrate-container");
+
+    expect(result.words).toEqual(serverWords as HTMLElement[]);
+    expect(result.chars).toEqual(serverChars as HTMLElement[]);
+    expect(result.lines).toHaveLength(1);
+    expect(result.lines[0]?.parentElement).toBe(container);
+    expect(container.querySelectorAll(".split-word")).toHaveLength(3);
+    expect(container.textContent).toBe("Hello big world");
+    expect(container.getAttribute("aria-label")).toBe("Hello big world");
+  });
+
+  it("should adopt standalone delimiters as chars", () => {
+    const options = { splitBy: "-", delimiter: "standalone" } as const;
+    container.innerHTML = splitToHTML("a-b", { ...options, mask: "chars" });
+
+    const result = hydrate("#hydrate-container", { ...options, mask: "chars" });
+
+    expect(result.words).toHaveLength(2);
+    expect(result.chars.map((char) => char.textContent)).toEqual([
+      "a",
+      "-",
+      "b",
+    ]);
+    expect(result.masks).toHaveLength(3);
+    expect(container.textContent).toBe("a-b");
+  });
+
+  it("should break adopted lines at <br> elements", () => {
+    container.innerHTML = `${splitToHTML("one two")}<br>${splitToHTML(
+      "three"
+    )}`;
+
+    const result = hydrate("#hydrate-container");
+
+    expect(result.words).toHaveLength(3);
+    expect(result.lines.map((line) => line.textContent)).toEqual([
+      "one two",
+      "three",
+    ]);
+    expect(result.lines[0]?.nextSibling?.nodeName).toBe("BR");
+  });
+
+  it("should isolate adopted runs written against the direction", () => {
+    container.innerHTML = splitToHTML("Say שלום עולם now");
+
+    const result = hydrate("#hydrate-container");
+    const isolate = container.querySelector("[dir]");
+
+    expect(isolate?.getAttribute("dir")).toBe("rtl");
+    expect(isolate?.textContent).toBe("שלום עולם");
+    expect(result.words).toHaveLength(4);
+  });
+
+  it("should isolate runs of split markup again", () => {
+    container.innerHTML = "Hello שלום עולם world";
+    splitText("#hydrate-container");
+
+    const result = hydrate("#hydrate-container");
+    const isolates = container.querySelectorAll("[dir]");
+
+    expect(result.words).toHaveLength(4);
+    expect(isolates).toHaveLength(1);
+    expect(isolates[0]?.textContent).toBe("שלום עולם");
+    expect(isolates[0]?.querySelectorAll(".split-word")).toHaveLength(2);
+  });
+
+  it("should group adopted words into lines", () => {
+    container.innerHTML = splitToHTML("one two three", { types: "words" });
+
+    const restore = stubLineTops({ one: 0, two: 0, three: 20 });
+
+    try {
+      const result = hydrate("#hydrate-container", { types: "words,lines" });
+
+      expect(result.lines).toHaveLength(2);
+      expect(result.lines[0]?.textContent).toBe("one two ");
+      expect(result.lines[1]?.textContent).toBe("three");
+    } finally {
+      restore();
+    }
+  });
+
+  it("should re-measure lines of an element that was already split", () => {
+    container.innerHTML = 'Read <a href="/docs">the docs</a>';
+    const split = splitText("#hydrate-container");
+
+    const result = hydrate("#hydrate-container");
+
+    expect(result.words).toEqual(split.words);
+    expect(result.chars).toEqual(split.chars);
+    expect(container.querySelectorAll(".split-line")).toHaveLength(1);
+    expect(container.querySelectorAll(".split-line .split-line")).toHaveLength(
+      0
+    );
+    expect(container.querySelector("a")?.getAttribute("href")).toBe("/docs");
+    expect(container.querySelector("a")?.textContent).toBe("the docs");
+  });
+
+  it("should restore the adopted markup on revert", () => {
+    const html = splitToHTML("Hello <world>");
+    container.innerHTML = html;
+    const serverHTML = container.innerHTML;
+
+    const result = hydrate("#hydrate-container");
+    result.revert();
+
+    expect(container.innerHTML).toBe(serverHTML);
+    expect(container.hasAttribute("aria-label")).toBe(false);
+  });
+
+  it("should restore nested markup on revert", () => {
+    container.innerHTML = 'Read <a href="/docs">the docs</a>';
+    splitText("#hydrate-container", { aria: "none" });
+    const splitHTML = container.innerHTML;
+
+    const result = hydrate("#hydrate-container", { aria: "none" });
+    result.revert();
+
+    expect(container.innerHTML).toBe(splitHTML);
+  });
+
+  it("should split the original text when split after hydrating", () => {
+    container.innerHTML = splitToHTML("Hello world");
+    hydrate("#hydrate-container");
+
+    const result = splitText("#hydrate-container");
+
+    expect(result.words).toHaveLength(2);
+    expect(result.chars).toHaveLength(10);
+    expect(container.querySelectorAll(".split-word .split-word")).toHaveLength(
+      0
+    );
+    expect(container.querySelectorAll(".split-char .split-char")).toHaveLength(
+      0
+    );
+
+    result.revert();
+
+    expect(container.innerHTML).toBe("Hello world");
+  });
+
+  it("should split the original markup when split after hydrating a split", () => {
+    container.innerHTML = 'Read <a href="/docs">the docs</a>';
+    splitText("#hydrate-container");
+    hydrate("#hydrate-container");
+
+    const result = splitText("#hydrate-container");
+
+    expect(result.words).toHaveLength(3);
+    expect(container.querySelectorAll(".split-word .split-word")).toHaveLength(
+      0
+    );
+
+    result.revert();
+
+    expect(container.innerHTML).toBe('Read <a href="/docs">the docs</a>');
+  });
+
+  it("should walk into inline wrappers of split markup", () => {
+    const source = document.createElement("div");
+    source.id = "hydrate-source";
+    source.innerHTML = 'One <span style="color: red">two three</span> four';
+    document.body.appendChild(source);
+    splitText("#hydrate-source");
+    container.innerHTML = source.innerHTML;
+    source.remove();
+
+    const result = hydrate("#hydrate-container");
+
+    expect(result.words.map((word) => word.textContent)).toEqual([
+      "One",
+      "two",
+      "three",
+      "four",
+    ]);
+    expect(result.chars).toHaveLength(15);
+    const wrapper = Array.from(container.querySelectorAll("span")).find(
+      (span) => span.style.color === "red"
+    );
+    expect(wrapper?.querySelectorAll(".split-word")).toHaveLength(2);
+  });
+
+  it("should adopt word wrappers when only chars were split", () => {
+    container.innerHTML = splitToHTML("Hi you", { types: "chars" });
+
+    const result = hydrate("#hydrate-container", { types: "chars,lines" });
+
+    expect(result.chars).toHaveLength(5);
+    expect(result.lines).toHaveLength(1);
+    expect(result).not.toHaveProperty("words");
+    expect(
+      container.querySelectorAll(".split-line > .split-word-wrapper")
+    ).toHaveLength(2);
+  });
+
+  it("should adopt unclassed word wrappers when only chars were split", () => {
+    const classNames = { wordWrapper: "" };
+    container.innerHTML = splitToHTML("Hi you", { types: "chars", classNames });
+
+    const result = hydrate("#hydrate-container", {
+      types: "chars,lines",
+      classNames,
+    });
+
+    expect(result.chars).toHaveLength(5);
+    expect(result.lines[0]?.children).toHaveLength(2);
+  });
+
+  it("should recognize custom class names and masks", () => {
+    const options = {
+      classNames: { word: "w", char: "c", line: "l" },
+      mask: "words" as const,
+    };
+    container.innerHTML = splitToHTML("Hello world", options);
+
+    const result = hydrate("#hydrate-container", options);
+
+    expect(result.words.map((word) => word.className)).toEqual(["w", "w"]);
+    expect(result.chars).toHaveLength(10);
+    expect(result.masks).toHaveLength(2);
+    expect(result.masks?.[0]?.firstElementChild).toBe(result.words[0] ?? null);
+    expect(result.lines[0]?.className).toBe("l");
+  });
+
+  it("should throw error for non-existent element selector", () => {
+    expect(() => {
+      hydrate("#non-existent-element");
+    }).toThrow("Element not found");
+  });
+});
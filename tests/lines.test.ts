@@ -0,0 +1,189 @@
+import { describe, it, expect } from "bun:test";
+import { groupLines, groupWordLines } from "../src/lines";
+import type { SplitItem } from "../src/types";
+
+// Creates a word laid out in the given boxes, each given by its top and bottom
+const word = (text: string, ...rects: [number, number][]): SplitItem => ({
+  node: {
+    textContent: text,
+    getClientRects: () => rects.map(([top, bottom]) => ({ top, bottom })),
+    getBoundingClientRect: () => ({ top: 0, bottom: 0 }),
+  } as unknown as Node,
+  type: "word",
+  ancestors: [],
+});
+
+const space = (): SplitItem => ({
+  node: { textContent: " " } as Node,
+  type: "space",
+  ancestors: [],
+});
+
+const lineTexts = (items: SplitItem[]) =>
+  groupLines(items).map((line) =>
+    line.map(({ node }) => node.textContent).join("")
+  );
+
+describe("groupLines", () => {
+  it("should group words by vertical overlap", () => {
+    expect(
+      lineTexts([
+        word("one", [0, 20]),
+        space(),
+        word("two", [0, 20]),
+        space(),
+        word("three", [20, 40]),
+      ])
+    ).toEqual(["one two ", "three"]);
+  });
+
+  it("should keep words of mixed font sizes on one line", () => {
+    expect(
+      lineTexts([
+        word("Big", [0, 40]),
+        space(),
+        word("small", [22, 38]),
+        space(),
+        word("next", [40, 56]),
+      ])
+    ).toEqual(["Big small ", "next"]);
+  });
+
+  it("should keep superscripts and subscripts on their line", () => {
+    expect(
+      lineTexts([
+        word("E", [100, 120]),
+        word("2", [96, 108]),
+        space(),
+        word("H", [100, 120]),
+        word("2", [112, 124]),
+        word("O", [100, 120]),
+      ])
+    ).toEqual(["E2 H2O"]);
+  });
+
+  it("should tolerate sub-pixel baselines", () => {
+    expect(
+      lineTexts([word("a", [10.4, 30.4]), space(), word("b", [10, 30])])
+    ).toEqual(["a b"]);
+  });
+
+  it("should start a new line when a word is above the line", () => {
+    expect(
+      lineTexts([word("bottom", [40, 60]), space(), word("top", [0, 20])])
+    ).toEqual(["bottom ", "top"]);
+  });
+
+  it("should start a new line after a word broken across lines", () => {
+    expect(
+      lineTexts([
+        word("one", [0, 20]),
+        space(),
+        word("broken", [0, 20], [20, 40]),
+        space(),
+        word("two", [20, 40]),
+      ])
+    ).toEqual(["one broken ", "two"]);
+  });
+
+  it("should keep a word with several boxes on one line together", () => {
+    expect(
+      lineTexts([word("a", [0, 20], [0, 20]), space(), word("b", [0, 20])])
+    ).toEqual(["a b"]);
+  });
+
+  it("should end lines at line breaks", () => {
+    expect(
+      lineTexts([
+        word("a", [0, 20]),
+        { node: { textContent: "\n" } as Node, type: "break", ancestors: [] },
+        word("b", [0, 20]),
+      ])
+    ).toEqual(["a\n", "b"]);
+  });
+
+  it("should group vertical text into columns", () => {
+    const column = (text: string, left: number): SplitItem => ({
+      ...word(text),
+      node: {
+        textContent: text,
+        getClientRects: () => [{ left, right: left + 20, top: 0, bottom: 0 }],
+      } as unknown as Node,
+    });
+
+    // Columns of vertical-rl text are laid out from right to left
+    expect(
+      groupLines(
+        [column("一", 100), column("二", 101), column("三", 80)],
+        true
+      ).map((line) => line.map(({ node }) => node.textContent).join(""))
+    ).toEqual(["一二", "三"]);
+
+    // and columns of vertical-lr text from left to right
+    expect(
+      groupLines(
+        [column("一", 0), column("二", 0), column("三", 20)],
+        true
+      ).map((line) => line.map(({ node }) => node.textContent).join(""))
+    ).toEqual(["一二", "三"]);
+  });
+
+  it("should fall back to the bounding box of words without boxes", () => {
+    expect(lineTexts([word("a"), space(), word("b")])).toEqual(["a b"]);
+  });
+});
+
+// Creates a word of chars, each laid out on the line with the given top
+const charWord = (...chars: [string, number][]) => {
+  const element = document.createElement("span");
+
+  for (const [text, top] of chars) {
+    const char = document.createElement("span");
+    char.textContent = text;
+    char.getClientRects = () =>
+      [{ top, bottom: top + 20 }] as unknown as DOMRectList;
+    element.appendChild(char);
+  }
+
+  return element;
+};
+
+const wordLineTexts = (element: Element) =>
+  groupWordLines(element).map((line) =>
+    line.map((node) => node.textContent).join("")
+  );
+
+describe("groupWordLines", () => {
+  it("should group the chars of a broken word by line", () => {
+    expect(
+      wordLineTexts(charWord(["a", 0], ["b", 0], ["c", 20], ["d", 40]))
+    ).toEqual(["ab", "c", "d"]);
+  });
+
+  it("should keep a word on a single line together", () => {
+    expect(wordLineTexts(charWord(["a", 0], ["b", 2], ["c", 0]))).toEqual([
+      "abc",
+    ]);
+  });
+
+  it("should break after the last soft hyphen of a line", () => {
+    expect(
+      wordLineTexts(
+        charWord(
+          ["a", 0],
+          ["\u00AD", 0],
+          ["b", 0],
+          ["\u00AD", 0],
+          ["c", 0],
+          ["d", 20]
+        )
+      )
+    ).toEqual(["a\u00ADb\u00AD", "cd"]);
+  });
+
+  it("should break anywhere on lines without a soft hyphen", () => {
+    expect(
+      wordLineTexts(charWord(["a", 0], ["b", 20], ["\u00AD", 20], ["c", 40]))
+    ).toEqual(["a", "b\u00AD", "c"]);
+  });
+});
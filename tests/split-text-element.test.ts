@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { defineSplitTextElement } from "../src/index";
+import type { SplitTextResult } from "../src/index";
+
+describe("<split-text>", () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    document.body.removeChild(container);
+  });
+
+  // Lets the mutation observer of the element run
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  // Creates the element with the given content, without connecting it
+  const createElement = (html: string, attributes = {}) => {
+    const element = document.createElement("split-text");
+
+    for (const [name, value] of Object.entries(attributes)) {
+      element.setAttribute(name, value as string);
+    }
+
+    element.innerHTML = html;
+
+    return element as HTMLElement & { result?: SplitTextResult };
+  };
+
+  it("should be defined when the package is imported", () => {
+    expect(customElements.get("split-text")).toBeDefined();
+  });
+
+  it("should split its content when connected", () => {
+    const element = createElement("Hello world");
+    container.appendChild(element);
+
+    expect(element.querySelectorAll(".split-word")).toHaveLength(2);
+    expect(element.querySelectorAll(".split-char")).toHaveLength(10);
+    expect(element.querySelectorAll(".split-line")).toHaveLength(1);
+    expect(element.result?.words).toHaveLength(2);
+  });
+
+  it("should read options from attributes", () => {
+    const element = createElement("apple,banana", {
+      types: "words",
+      "split-by": ",",
+      "word-class": "fruit",
+      inline: "",
+    });
+    container.appendChild(element);
+
+    const words = Array.from(element.querySelectorAll(".fruit"));
+
+    expect(words.map((word) => word.textContent)).toEqual(["apple,", "banana"]);
+    expect((words[0] as HTMLElement).style.display).toBe("inline");
+    expect(element.querySelector(".split-char")).toBeNull();
+  });
+
+  it("should hide the split content behind a copy by default", () => {
+    const element = createElement("Hello world");
+    container.appendChild(element);
+
+    expect(element.hasAttribute("aria-label")).toBe(false);
+    expect(element.querySelector(".split-sr-only")?.textContent).toBe(
+      "Hello world"
+    );
+  });
+
+  it("should dispatch a split event with the result", () => {
+    const element = createElement("Hello world");
+    const results: SplitTextResult[] = [];
+
+    container.addEventListener("split", (event) => {
+      results.push((event as CustomEvent<SplitTextResult>).detail);
+    });
+    container.appendChild(element);
+
+    expect(results).toHaveLength(1);
+    expect(results[0]?.words.map((word) => word.textContent)).toEqual([
+      "Hello",
+      "world",
+    ]);
+  });
+
+  it("should re-split when its content changes", async () => {
+    const element = createElement("Hello world");
+    let splits = 0;
+
+    element.addEventListener("split", () => splits++);
+    container.appendChild(element);
+    await flush();
+
+    expect(splits).toBe(1);
+
+    element.textContent = "One two three";
+    await flush();
+
+    expect(splits).toBe(2);
+    expect(element.result?.words.map((word) => word.textContent)).toEqual([
+      "One",
+      "two",
+      "three",
+    ]);
+    expect(element.querySelectorAll(".split-word")).toHaveLength(3);
+  });
+
+  it("should re-split when an attribute changes", () => {
+    const element = createElement("Hello world");
+    container.appendChild(element);
+
+    element.setAttribute("types", "words");
+
+    expect(element.querySelectorAll(".split-word")).toHaveLength(2);
+    expect(element.querySelector(".split-char")).toBeNull();
+    expect(element.textContent).toContain("Hello world");
+  });
+
+  it("should be displayed as a block unless styled otherwise", () => {
+    // happy-dom computes no default display, which browsers compute as inline
+    const sheet = document.createElement("style");
+    sheet.textContent = "split-text { display: inline }";
+    document.head.appendChild(sheet);
+
+    const element = createElement("Hello world");
+    const styled = createElement("Hello world");
+    styled.style.display = "inline-block";
+    container.append(element, styled);
+
+    expect(element.style.display).toBe("block");
+    expect(styled.style.display).toBe("inline-block");
+
+    element.remove();
+    sheet.remove();
+
+    expect(element.hasAttribute("style")).toBe(false);
+  });
+
+  it("should re-split when its width changes", async () => {
+    const OriginalResizeObserver = globalThis.ResizeObserver;
+    let resize: (width: number) => void = () => {};
+
+    globalThis.ResizeObserver = class {
+      constructor(callback: ResizeObserverCallback) {
+        resize = (width) =>
+          callback(
+            [{ contentRect: { width } } as ResizeObserverEntry],
+            this as unknown as ResizeObserver
+          );
+      }
+
+      observe() {
+        resize(200);
+      }
+
+      unobserve() {}
+
+      disconnect() {}
+    } as unknown as typeof ResizeObserver;
+
+    try {
+      const element = createElement("Hello world");
+      let splits = 0;
+
+      element.addEventListener("split", () => splits++);
+      container.appendChild(element);
+
+      resize(300);
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      expect(splits).toBe(2);
+      expect(element.querySelectorAll(".split-word")).toHaveLength(2);
+    } finally {
+      globalThis.ResizeObserver = OriginalResizeObserver;
+    }
+  });
+
+  it("should revert its content when disconnected", async () => {
+    const element = createElement('Read <a href="/docs">the docs</a>');
+    container.appendChild(element);
+
+    element.remove();
+    await flush();
+
+    expect(element.innerHTML).toBe('Read <a href="/docs">the docs</a>');
+    expect(element.result).toBeUndefined();
+  });
+
+  it("should split again when moved", () => {
+    const element = createElement("Hello world");
+    const other = document.createElement("section");
+    container.append(element, other);
+
+    other.appendChild(element);
+
+    expect(element.querySelectorAll(".split-word")).toHaveLength(2);
+    expect(element.querySelectorAll(".split-word .split-word")).toHaveLength(0);
+  });
+
+  it("should not define a name twice", () => {
+    expect(() => defineSplitTextElement()).not.toThrow();
+  });
+});
@@ -1,5 +1,18 @@
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
-import { splitText } from "../src/index";
+import {
+  splitText,
+  splitTextAll,
+  splitTextAllAsync,
+  splitTextAsync,
+} from "../src/index";
+import type { SplitNode } from "../src/index";
+import {
+  countLayouts,
+  stubCanvasText,
+  stubClientRects,
+  stubColumnLefts,
+  stubLineTops,
+} from "./stub-layout";
 
 describe("splitText", () => {
   let container: HTMLElement;
@@ -118,6 +131,207 @@ describe("splitText", () => {
       expect(result.chars[0]?.className).toBe("");
       expect(result.lines[0]?.className).toBe("");
     });
+
+    it("should create elements with custom tags and attributes", () => {
+      container.id = "custom-tags-container";
+      container.textContent = "Hello world";
+
+      const result = splitText("#custom-tags-container", {
+        tags: { line: "div", word: "em" },
+        attributes: {
+          line: { part: "line" },
+          word: { part: "word", "data-animate": "" },
+          char: { part: "char" },
+        },
+        mask: "lines",
+      });
+
+      expect(result.lines[0]?.tagName).toBe("DIV");
+      expect(result.lines[0]?.getAttribute("part")).toBe("line");
+      expect(result.words[0]?.tagName).toBe("EM");
+      expect(result.words[0]?.getAttribute("data-animate")).toBe("");
+      expect(result.chars[0]?.tagName).toBe("SPAN");
+      expect(result.chars[0]?.getAttribute("part")).toBe("char");
+      expect(result.masks?.[0]?.tagName).toBe("SPAN");
+      expect(result.masks?.[0]?.hasAttribute("part")).toBe(false);
+    });
+
+    it("should skip inline styles", () => {
+      container.id = "no-styles-container";
+      container.textContent = "Hello world";
+
+      const result = splitText("#no-styles-container", {
+        inlineStyles: false,
+        mask: "chars",
+        aria: "hidden",
+      });
+
+      expect(container.querySelectorAll("[style]")).toHaveLength(0);
+      expect(container.style.getPropertyValue("--char-total")).toBe("");
+      expect(result.chars[1]?.dataset.charIndex).toBe("1");
+      expect(result.words[1]?.dataset.wordIndex).toBe("1");
+    });
+  });
+
+  describe("split types", () => {
+    it("should only split into lines", () => {
+      container.id = "lines-only-container";
+      container.innerHTML = "Hello <em>big</em> world";
+
+      const result = splitText("#lines-only-container", { types: "lines" });
+
+      expect(Object.keys(result).sort()).toEqual(["lines", "revert", "tree"]);
+      expect(result.lines).toHaveLength(1);
+      expect(container.querySelectorAll("span")).toHaveLength(1);
+      expect(container.querySelector("em")?.textContent).toBe("big");
+      expect(container.textContent).toBe("Hello big world");
+    });
+
+    it("should split into words and lines without chars", () => {
+      container.id = "words-lines-container";
+      container.textContent = "a,b";
+
+      const result = splitText("#words-lines-container", {
+        types: "words, lines",
+        splitBy: ",",
+      });
+
+      expect(Object.keys(result).sort()).toEqual([
+        "lines",
+        "revert",
+        "tree",
+        "words",
+      ]);
+      expect(result.words.map((word) => word.textContent)).toEqual(["a,", "b"]);
+      expect(container.querySelector(".split-char")).toBeNull();
+      expect(container.querySelector(".split-char-delimiter")).toBeNull();
+    });
+
+    it("should keep classed word wrappers when only splitting chars", () => {
+      container.id = "chars-only-container";
+      container.textContent = "Hi you";
+
+      const result = splitText("#chars-only-container", { types: "chars" });
+
+      expect(Object.keys(result).sort()).toEqual(["chars", "revert", "tree"]);
+      expect(result.chars).toHaveLength(5);
+      expect(container.querySelector(".split-word")).toBeNull();
+      expect(container.querySelector(".split-line")).toBeNull();
+      expect(result.chars[0]?.parentElement?.className).toBe(
+        "split-word-wrapper"
+      );
+      expect(result.chars[0]?.parentElement?.parentElement).toBe(container);
+    });
+
+    it("should class word wrappers without inline styles", () => {
+      container.id = "chars-only-no-styles-container";
+      container.textContent = "Hi you";
+
+      const result = splitText("#chars-only-no-styles-container", {
+        types: "chars",
+        inlineStyles: false,
+        classNames: { wordWrapper: "word" },
+      });
+      const wrapper = result.chars[0]?.parentElement;
+
+      expect(wrapper?.className).toBe("word");
+      expect(wrapper?.hasAttribute("style")).toBe(false);
+    });
+
+    it("should not measure layout without lines", () => {
+      container.id = "no-measure-container";
+      container.textContent = "Hello world";
+      let reads = 0;
+      const restore = stubClientRects(() => {
+        reads++;
+        return [];
+      });
+
+      try {
+        splitText("#no-measure-container", { types: "words,chars" });
+      } finally {
+        restore();
+      }
+
+      expect(reads).toBe(0);
+    });
+
+    it("should throw error for unknown types", () => {
+      container.id = "unknown-types-container";
+      container.textContent = "Hello";
+
+      expect(() => {
+        splitText("#unknown-types-container", { types: "letters" });
+      }).toThrow('Unknown split type "letters"');
+    });
+  });
+
+  describe("masks", () => {
+    it("should wrap each line in a clipping mask", () => {
+      container.id = "line-mask-container";
+      container.textContent = "Hello world";
+
+      const result = splitText("#line-mask-container", { mask: "lines" });
+
+      expect(result.masks).toHaveLength(1);
+
+      const [lineMask] = result.masks ?? [];
+      expect(lineMask?.className).toBe("split-line-mask");
+      expect(lineMask?.style.overflow).toBe("clip");
+      expect(lineMask?.style.display).toBe("inline-block");
+      expect(lineMask?.parentElement).toBe(container);
+      expect(lineMask?.firstElementChild).toBe(result.lines[0] ?? null);
+    });
+
+    it("should wrap each word and char in a mask", () => {
+      container.id = "word-mask-container";
+      container.textContent = "Hi you";
+
+      const words = splitText("#word-mask-container", { mask: "words" });
+
+      expect(words.masks).toHaveLength(2);
+      expect(words.masks?.[1]?.className).toBe("split-word-mask");
+      expect(words.masks?.[1]?.dataset.index).toBe("1");
+      expect(words.words[1]?.parentElement).toBe(words.masks?.[1] ?? null);
+
+      words.revert();
+
+      const chars = splitText("#word-mask-container", { mask: "chars" });
+
+      expect(chars.masks).toHaveLength(5);
+      expect(chars.chars[4]?.parentElement).toBe(chars.masks?.[4] ?? null);
+      expect(chars.masks?.[4]?.parentElement).toBe(chars.words[1] ?? null);
+    });
+
+    it("should use the configured mask class", () => {
+      container.id = "custom-mask-container";
+      container.textContent = "Hello";
+
+      const result = splitText("#custom-mask-container", {
+        mask: "lines",
+        classNames: { mask: "reveal" },
+      });
+
+      expect(result.masks?.[0]?.className).toBe("reveal");
+    });
+
+    it("should not add masks without the mask option", () => {
+      container.id = "no-mask-container";
+      container.textContent = "Hello";
+
+      const result = splitText("#no-mask-container");
+
+      expect(result).not.toHaveProperty("masks");
+    });
+
+    it("should throw error when masking a level that is not split", () => {
+      container.id = "invalid-mask-container";
+      container.textContent = "Hello";
+
+      expect(() => {
+        splitText("#invalid-mask-container", { types: "lines", mask: "words" });
+      }).toThrow('Cannot mask "words" without splitting them');
+    });
   });
 
   describe("DOM structure", () => {
@@ -239,7 +453,325 @@ describe("splitText", () => {
 
       const result = splitText("#newlines-container");
 
-      expect(result.words).toHaveLength(3); // "Line", "one\nLine", "two"
+      expect(result.words).toHaveLength(4); // "Line", "one", "Line", "two"
+    });
+  });
+
+  describe("whitespace and line breaks", () => {
+    it("should split words at tabs and newlines", () => {
+      container.id = "whitespace-words-container";
+      container.textContent = "one\ttwo\nthree";
+
+      const result = splitText("#whitespace-words-container");
+
+      expect(result.words.map((word) => word.textContent)).toEqual([
+        "one",
+        "two",
+        "three",
+      ]);
+    });
+
+    it("should not split words at non-breaking spaces", () => {
+      container.id = "whitespace-nbsp-container";
+      container.textContent = "10\u00A0km away at 9\u202Fam";
+
+      const result = splitText("#whitespace-nbsp-container");
+      const expected = ["10\u00A0km", "away", "at", "9\u202Fam"];
+
+      expect(result.words.map((word) => word.textContent)).toEqual(expected);
+
+      const segmented = splitText("#whitespace-nbsp-container", {
+        locale: "en",
+      });
+
+      expect(segmented.words.map((word) => word.textContent)).toEqual(expected);
+    });
+
+    it("should keep whitespace runs when white-space preserves them", () => {
+      container.id = "whitespace-pre-wrap-container";
+      container.style.whiteSpace = "pre-wrap";
+      container.textContent = "  a  b\tc ";
+
+      const result = splitText("#whitespace-pre-wrap-container", {
+        types: "words",
+      });
+
+      expect(result.words).toHaveLength(3);
+      expect(container.textContent).toBe("  a  b\tc ");
+    });
+
+    it("should collapse leading whitespace by default", () => {
+      container.id = "whitespace-normal-container";
+      container.textContent = "  a b";
+
+      splitText("#whitespace-normal-container", { types: "words" });
+
+      expect(container.textContent).toBe("a b");
+    });
+
+    it("should break lines at <br> elements", () => {
+      container.id = "whitespace-br-container";
+      container.innerHTML = "one<br>two <em>three<br>four</em>";
+
+      const result = splitText("#whitespace-br-container");
+
+      expect(result.lines.map((line) => line.textContent)).toEqual([
+        "one",
+        "two three",
+        "four",
+      ]);
+      expect(result.lines[0]?.nextSibling?.nodeName).toBe("BR");
+      expect(container.querySelectorAll("br")).toHaveLength(2);
+      expect(container.querySelector("em br")).not.toBeNull();
+    });
+
+    it("should break lines at preserved newlines", () => {
+      container.id = "whitespace-newlines-container";
+      container.style.whiteSpace = "pre-line";
+      container.textContent = "one  two\n\nthree";
+
+      const result = splitText("#whitespace-newlines-container");
+
+      expect(result.lines.map((line) => line.textContent)).toEqual([
+        "one  two",
+        "three",
+      ]);
+      expect(result.words).toHaveLength(3);
+      expect(container.textContent).toBe("one  two\n\nthree");
+    });
+
+    it("should not break lines at newlines collapsed by white-space", () => {
+      container.id = "whitespace-collapsed-container";
+      container.textContent = "one\ntwo";
+
+      const result = splitText("#whitespace-collapsed-container");
+
+      expect(result.lines).toHaveLength(1);
+    });
+  });
+
+  describe("grapheme clusters", () => {
+    const cases: [string, string, string[]][] = [
+      ["ZWJ sequences", "a👨‍👩‍👧b", ["a", "👨‍👩‍👧", "b"]],
+      ["flags", "🇯🇵🇫🇷", ["🇯🇵", "🇫🇷"]],
+      ["skin tone modifiers", "👍🏽!", ["👍🏽", "!"]],
+      ["combining marks", "cafe\u0301", ["c", "a", "f", "e\u0301"]],
+      ["stacked combining marks", "a\u0308\u0301o", ["a\u0308\u0301", "o"]],
+    ];
+
+    for (const [name, text, expected] of cases) {
+      it(`should keep ${name} in a single char`, () => {
+        container.id = "grapheme-container";
+        container.textContent = text;
+
+        const result = splitText("#grapheme-container");
+
+        expect(result.chars.map((char) => char.textContent)).toEqual(expected);
+      });
+
+      it(`should keep ${name} in a single char without Intl.Segmenter`, () => {
+        const { Segmenter } = Intl;
+        container.id = "grapheme-fallback-container";
+        container.textContent = text;
+
+        Object.assign(Intl, { Segmenter: undefined });
+
+        try {
+          const result = splitText("#grapheme-fallback-container");
+
+          expect(result.chars.map((char) => char.textContent)).toEqual(
+            expected
+          );
+        } finally {
+          Object.assign(Intl, { Segmenter });
+        }
+      });
+    }
+  });
+
+  describe("kerning", () => {
+    const margins = (chars: HTMLElement[]) =>
+      chars.map((char) => char.style.getPropertyValue("margin-inline-end"));
+
+    it("should add the kerning of each pair as a margin", () => {
+      container.id = "kerning-container";
+      container.textContent = "AVA To";
+      const { fonts, restore } = stubCanvasText({ AV: -2, VA: -2, To: -1.6 });
+
+      try {
+        const result = splitText("#kerning-container", { kerning: true });
+
+        expect(margins(result.chars)).toEqual([
+          "-0.125em",
+          "-0.125em",
+          "",
+          "-0.1em",
+          "",
+        ]);
+        expect(fonts).toContain("normal normal 16px monospace");
+      } finally {
+        restore();
+      }
+    });
+
+    it("should measure in the font of nested markup", () => {
+      container.id = "kerning-nested-container";
+      container.innerHTML = 'AV <em style="font-size: 32px">AV</em>';
+      const { restore } = stubCanvasText({ AV: -2 });
+
+      try {
+        const result = splitText("#kerning-nested-container", {
+          kerning: true,
+        });
+
+        expect(margins(result.chars)).toEqual([
+          "-0.125em",
+          "",
+          "-0.0625em",
+          "",
+        ]);
+      } finally {
+        restore();
+      }
+    });
+
+    it("should add the margins to the masks of masked chars", () => {
+      container.id = "kerning-mask-container";
+      container.textContent = "AV";
+      const { restore } = stubCanvasText({ AV: -2 });
+
+      try {
+        const result = splitText("#kerning-mask-container", {
+          kerning: true,
+          mask: "chars",
+        });
+
+        expect(margins(result.masks ?? [])).toEqual(["-0.125em", ""]);
+        expect(margins(result.chars)).toEqual(["", ""]);
+      } finally {
+        restore();
+      }
+    });
+
+    it("should not add margins unless enabled", () => {
+      container.id = "kerning-disabled-container";
+      container.textContent = "AVA";
+      const { fonts, restore } = stubCanvasText({ AV: -2, VA: -2 });
+
+      try {
+        const result = splitText("#kerning-disabled-container");
+
+        expect(margins(result.chars)).toEqual(["", "", ""]);
+        expect(fonts).toHaveLength(0);
+      } finally {
+        restore();
+      }
+    });
+
+    it("should not add margins when kerning is disabled by CSS", () => {
+      container.id = "kerning-none-container";
+      container.style.fontKerning = "none";
+      container.textContent = "AVA";
+      const { restore } = stubCanvasText({ AV: -2, VA: -2 });
+
+      try {
+        const result = splitText("#kerning-none-container", { kerning: true });
+
+        expect(margins(result.chars)).toEqual(["", "", ""]);
+      } finally {
+        restore();
+      }
+    });
+
+    it("should split without margins when text cannot be measured", () => {
+      container.id = "kerning-unsupported-container";
+      container.textContent = "AVA";
+
+      const result = splitText("#kerning-unsupported-container", {
+        kerning: true,
+      });
+
+      expect(margins(result.chars)).toEqual(["", "", ""]);
+    });
+  });
+
+  describe("locale-aware word segmentation", () => {
+    const wordsOf = (result: { words: HTMLElement[] }) =>
+      result.words.map((word) => word.textContent);
+
+    it("should split Japanese into words when a locale is given", () => {
+      container.id = "japanese-container";
+      container.textContent = "「こんにちは、世界！」";
+
+      const result = splitText("#japanese-container", { locale: "ja" });
+
+      expect(wordsOf(result)).toEqual(["「こんにちは、", "世界！」"]);
+      expect(container.textContent).toBe("「こんにちは、世界！」");
+    });
+
+    it("should split Chinese and Thai into words", () => {
+      container.id = "chinese-container";
+      container.textContent = "你好，世界。";
+
+      expect(
+        wordsOf(splitText("#chinese-container", { locale: "zh" }))
+      ).toEqual(["你好，", "世界。"]);
+
+      container.id = "thai-container";
+      container.textContent = "สวัสดีครับ";
+
+      expect(wordsOf(splitText("#thai-container", { locale: "th" }))).toEqual([
+        "สวัสดี",
+        "ครับ",
+      ]);
+    });
+
+    it("should keep punctuation attached to neighbouring words", () => {
+      container.id = "segmenter-punctuation-container";
+      container.textContent = "Hello, world! (was $39.99) - Save 25%!";
+
+      const result = splitText("#segmenter-punctuation-container", {
+        splitBy: "segmenter",
+      });
+
+      expect(wordsOf(result)).toEqual([
+        "Hello,",
+        "world!",
+        "(was",
+        "$39.99)",
+        "-",
+        "Save",
+        "25%!",
+      ]);
+    });
+
+    it("should use the lang attribute of the element", () => {
+      container.id = "lang-container";
+      container.lang = "ja";
+      container.textContent = "世界の人々";
+
+      const result = splitText("#lang-container", { splitBy: "segmenter" });
+
+      expect(result.words.length).toBeGreaterThan(1);
+      expect(wordsOf(result).join("")).toBe("世界の人々");
+    });
+
+    it("should split on whitespace without Intl.Segmenter", () => {
+      const { Segmenter } = Intl;
+      container.id = "segmenter-fallback-container";
+      container.textContent = "Hello  world";
+
+      Object.assign(Intl, { Segmenter: undefined });
+
+      try {
+        const result = splitText("#segmenter-fallback-container", {
+          locale: "en",
+        });
+
+        expect(wordsOf(result)).toEqual(["Hello", "world"]);
+      } finally {
+        Object.assign(Intl, { Segmenter });
+      }
     });
   });
 
@@ -294,6 +826,404 @@ describe("splitText", () => {
     });
   });
 
+  describe("words broken across lines", () => {
+    // Lays out the chars from the given index on the second line, and every
+    // other element on the line of its first char
+    const stubBrokenWord = (breakIndex: number) =>
+      stubClientRects((element) => {
+        const chars = Array.from(container.querySelectorAll(".split-char"));
+        const char = element.classList.contains("split-char")
+          ? element
+          : element.querySelector(".split-char");
+        const top = char && chars.indexOf(char) >= breakIndex ? 20 : 0;
+
+        return [{ top, bottom: top + 16 }];
+      });
+
+    it("should split a broken word into a part on each line", () => {
+      container.id = "broken-word-container";
+      container.textContent = "go abcdef";
+      const restore = stubBrokenWord(5);
+
+      try {
+        const result = splitText("#broken-word-container");
+
+        expect(result.lines.map((line) => line.textContent)).toEqual([
+          "go abc",
+          "def",
+        ]);
+        expect(result.words.map((word) => word.textContent)).toEqual([
+          "go",
+          "abc",
+          "def",
+        ]);
+        expect(result.words.map((word) => word.className)).toEqual([
+          "split-word",
+          "split-word split-word-partial",
+          "split-word split-word-partial",
+        ]);
+        expect(result.chars).toHaveLength(8);
+        expect(result.chars[5]?.dataset.wordIndex).toBe("2");
+        expect(result.chars[5]?.dataset.lineIndex).toBe("1");
+      } finally {
+        restore();
+      }
+    });
+
+    it("should not break words on a single line", () => {
+      container.id = "unbroken-word-container";
+      container.textContent = "go abcdef";
+      const restore = stubBrokenWord(Infinity);
+
+      try {
+        const result = splitText("#unbroken-word-container");
+
+        expect(result.words).toHaveLength(2);
+        expect(container.querySelector(".split-word-partial")).toBeNull();
+      } finally {
+        restore();
+      }
+    });
+
+    it("should break words at the last soft hyphen with a hyphen", () => {
+      container.id = "soft-hyphen-container";
+      container.textContent = "abc\u00ADdefgh";
+
+      // The part after the soft hyphen moves to the second line
+      const restore = stubClientRects((element) => {
+        const chars = Array.from(container.querySelectorAll(".split-char"));
+        const top =
+          chars.indexOf(element) >= 6 ||
+          element.firstElementChild?.textContent === "d"
+            ? 20
+            : 0;
+
+        return [{ top, bottom: top + 16 }];
+      });
+
+      try {
+        const result = splitText("#soft-hyphen-container");
+
+        expect(result.lines.map((line) => line.textContent)).toEqual([
+          "abc-",
+          "defgh",
+        ]);
+        expect(result.chars).toHaveLength(9);
+        expect(container.getAttribute("aria-label")).toBe("abc\u00ADdefgh");
+      } finally {
+        restore();
+      }
+    });
+
+    it("should mask each part of a broken word", () => {
+      container.id = "broken-word-mask-container";
+      container.textContent = "go abcdef";
+      const restore = stubBrokenWord(5);
+
+      try {
+        const result = splitText("#broken-word-mask-container", {
+          mask: "words",
+        });
+
+        expect(result.masks?.map((mask) => mask.textContent)).toEqual([
+          "go",
+          "abc",
+          "def",
+        ]);
+        expect(result.masks?.[2]?.firstElementChild).toBe(
+          result.words[2] ?? null
+        );
+      } finally {
+        restore();
+      }
+    });
+
+    it("should break words without a class when only chars are split", () => {
+      container.id = "broken-chars-container";
+      container.textContent = "go abcdef";
+      const restore = stubBrokenWord(5);
+
+      try {
+        const result = splitText("#broken-chars-container", {
+          types: "chars,lines",
+        });
+
+        expect(result.lines.map((line) => line.textContent)).toEqual([
+          "go abc",
+          "def",
+        ]);
+        expect(container.querySelector("[class*=partial]")).toBeNull();
+      } finally {
+        restore();
+      }
+    });
+
+    it("should restore broken words on revert", () => {
+      container.id = "broken-word-revert-container";
+      container.textContent = "abc\u00ADdefgh";
+      const restore = stubBrokenWord(6);
+
+      try {
+        splitText("#broken-word-revert-container").revert();
+
+        expect(container.textContent).toBe("abc\u00ADdefgh");
+      } finally {
+        restore();
+      }
+    });
+  });
+
+  describe("vertical writing modes", () => {
+    for (const [writingMode, lefts] of [
+      ["vertical-rl", { 日本: 100, 語の: 100, 文章: 80 }],
+      ["vertical-lr", { 日本: 0, 語の: 0, 文章: 20 }],
+    ] as const) {
+      it(`should group ${writingMode} text into columns`, () => {
+        container.id = "vertical-container";
+        container.style.writingMode = writingMode;
+        container.textContent = "日本 語の 文章";
+
+        const restore = stubColumnLefts(lefts);
+
+        try {
+          const result = splitText("#vertical-container");
+
+          expect(result.lines.map((line) => line.textContent)).toEqual([
+            "日本 語の ",
+            "文章",
+          ]);
+        } finally {
+          restore();
+        }
+      });
+    }
+
+    it("should not group horizontal text by columns", () => {
+      container.id = "horizontal-container";
+      container.textContent = "日本 語の 文章";
+
+      const restore = stubColumnLefts({ 日本: 0, 語の: 40, 文章: 80 });
+
+      try {
+        expect(splitText("#horizontal-container").lines).toHaveLength(1);
+      } finally {
+        restore();
+      }
+    });
+  });
+
+  describe("bidirectional text", () => {
+    it("should keep chars of joining letters inline", () => {
+      container.id = "bidi-joining-container";
+      container.style.direction = "rtl";
+      container.textContent = "مرحبا بالعالم";
+
+      const result = splitText("#bidi-joining-container");
+
+      expect(result.words.map((word) => word.textContent)).toEqual([
+        "مرحبا",
+        "بالعالم",
+      ]);
+      expect(result.chars.map((char) => char.textContent).join("")).toBe(
+        "مرحبابالعالم"
+      );
+      expect(
+        result.chars.every((char) => char.style.display === "inline")
+      ).toBe(true);
+      expect(result.words[0]?.style.display).toBe("inline-block");
+    });
+
+    it("should keep chars of non-joining letters inline-block", () => {
+      container.id = "bidi-hebrew-container";
+      container.style.direction = "rtl";
+      container.textContent = "שלום";
+
+      const result = splitText("#bidi-hebrew-container");
+
+      expect(result.chars[0]?.style.display).toBe("inline-block");
+      expect(container.querySelector("[dir]")).toBeNull();
+    });
+
+    it("should isolate runs written against the direction of the element", () => {
+      container.id = "bidi-rtl-container";
+      container.style.direction = "rtl";
+      container.textContent = "שלום hello, world 2024 עולם";
+
+      const result = splitText("#bidi-rtl-container");
+      const isolates = container.querySelectorAll("[dir]");
+
+      expect(isolates).toHaveLength(1);
+      expect(isolates[0]?.getAttribute("dir")).toBe("ltr");
+      expect(isolates[0]?.textContent).toBe("hello, world 2024");
+      expect(result.words.map((word) => word.textContent)).toEqual([
+        "שלום",
+        "hello,",
+        "world",
+        "2024",
+        "עולם",
+      ]);
+    });
+
+    it("should isolate numbers in right-to-left text", () => {
+      container.id = "bidi-digits-container";
+      container.style.direction = "rtl";
+      container.textContent = "שלום 2024 world ١٢٣ עולם";
+
+      splitText("#bidi-digits-container");
+      const isolates = container.querySelectorAll("[dir]");
+
+      expect(isolates).toHaveLength(1);
+      expect(isolates[0]?.getAttribute("dir")).toBe("ltr");
+      expect(isolates[0]?.textContent).toBe("2024 world ١٢٣");
+    });
+
+    it("should isolate numbers within right-to-left runs", () => {
+      container.id = "bidi-run-digits-container";
+      container.textContent = "Say שלום 2024 עולם now 5";
+
+      splitText("#bidi-run-digits-container", { types: "words" });
+      const isolate = container.querySelector("[dir=rtl]");
+      const number = isolate?.querySelector("[dir=ltr]");
+
+      expect(isolate?.textContent).toBe("שלום 2024 עולם");
+      expect(number?.textContent).toBe("2024");
+      expect(container.querySelectorAll("[dir]")).toHaveLength(2);
+    });
+
+    it("should isolate right-to-left runs in left-to-right text", () => {
+      container.id = "bidi-ltr-container";
+      container.textContent = "Say שלום עולם now";
+
+      splitText("#bidi-ltr-container", { types: "words" });
+      const isolate = container.querySelector("[dir]");
+
+      expect(isolate?.getAttribute("dir")).toBe("rtl");
+      expect(isolate?.textContent).toBe("שלום עולם");
+      expect(isolate?.querySelectorAll(".split-word")).toHaveLength(2);
+    });
+
+    it("should isolate runs on each line they are on", () => {
+      container.id = "bidi-lines-container";
+      container.textContent = "Say שלום עולם now";
+
+      const restore = stubLineTops({ Say: 0, שלום: 0, עולם: 20, now: 20 });
+
+      try {
+        const result = splitText("#bidi-lines-container", {
+          types: "words,lines",
+        });
+
+        expect(result.lines).toHaveLength(2);
+        expect(result.lines[0]?.querySelector("[dir]")?.textContent).toBe(
+          "שלום "
+        );
+        expect(result.lines[1]?.querySelector("[dir]")?.textContent).toBe(
+          "עולם"
+        );
+      } finally {
+        restore();
+      }
+    });
+  });
+
+  describe("global indices", () => {
+    it("should index chars across words and lines", () => {
+      container.id = "indices-container";
+      container.innerHTML = "ab cd<br>ef";
+
+      const result = splitText("#indices-container");
+
+      expect(result.chars.map((char) => char.dataset.charIndex)).toEqual([
+        "0",
+        "1",
+        "2",
+        "3",
+        "4",
+        "5",
+      ]);
+      expect(result.chars.map((char) => char.dataset.wordIndex)).toEqual([
+        "0",
+        "0",
+        "1",
+        "1",
+        "2",
+        "2",
+      ]);
+      expect(result.chars.map((char) => char.dataset.lineIndex)).toEqual([
+        "0",
+        "0",
+        "0",
+        "0",
+        "1",
+        "1",
+      ]);
+      expect(result.words.map((word) => word.dataset.lineIndex)).toEqual([
+        "0",
+        "0",
+        "1",
+      ]);
+      expect(result.lines[1]?.dataset.lineIndex).toBe("1");
+    });
+
+    it("should set indices and totals as custom properties", () => {
+      container.id = "indices-properties-container";
+      container.textContent = "ab cd";
+
+      const result = splitText("#indices-properties-container");
+      const char = result.chars[3];
+
+      expect(char?.dataset.index).toBe("1");
+      expect(char?.style.getPropertyValue("--char-index")).toBe("3");
+      expect(char?.style.getPropertyValue("--word-index")).toBe("1");
+      expect(char?.style.getPropertyValue("--line-index")).toBe("0");
+      expect(container.style.getPropertyValue("--char-total")).toBe("4");
+      expect(container.style.getPropertyValue("--word-total")).toBe("2");
+      expect(container.style.getPropertyValue("--line-total")).toBe("1");
+
+      result.revert();
+
+      expect(container.style.getPropertyValue("--char-total")).toBe("");
+      expect(container.style.width).toBe("200px");
+    });
+
+    it("should set totals as attributes without inline styles", () => {
+      container.id = "indices-totals-container";
+      container.textContent = "ab cd";
+
+      const result = splitText("#indices-totals-container", {
+        types: "chars,words",
+        inlineStyles: false,
+      });
+
+      expect(container.dataset.charTotal).toBe("4");
+      expect(container.dataset.wordTotal).toBe("2");
+      expect(container.hasAttribute("data-line-total")).toBe(false);
+      expect(container.style.getPropertyValue("--char-total")).toBe("");
+
+      result.revert();
+
+      expect(container.hasAttribute("data-char-total")).toBe(false);
+      expect(container.hasAttribute("data-word-total")).toBe(false);
+    });
+
+    it("should only index the requested levels", () => {
+      container.id = "indices-types-container";
+      container.textContent = "a-b";
+
+      const result = splitText("#indices-types-container", {
+        types: "chars,words",
+        splitBy: "-",
+        delimiter: "standalone",
+      });
+
+      expect(result.chars[1]?.dataset.charIndex).toBe("1");
+      expect(result.chars[1]?.dataset.wordIndex).toBeUndefined();
+      expect(result.chars[2]?.dataset.wordIndex).toBe("1");
+      expect(result.chars[2]?.dataset.lineIndex).toBeUndefined();
+      expect(container.style.getPropertyValue("--line-total")).toBe("");
+    });
+  });
+
   describe("delimiter handling", () => {
     it("should handle custom delimiter with spaces", () => {
       container.id = "delimiter-spaces-container";
@@ -321,18 +1251,672 @@ describe("splitText", () => {
       expect(delimiterSpans).toHaveLength(2); // Two commas
       expect(delimiterSpans[0]?.textContent).toBe(",");
     });
-  });
 
-  describe("return value structure", () => {
-    it("should return object with chars, words, and lines arrays", () => {
-      container.id = "return-structure-container";
-      container.textContent = "Test text";
+    it("should split by a regular expression", () => {
+      container.id = "delimiter-regexp-container";
+      container.textContent = "one\ttwo\n three";
 
-      const result = splitText("#return-structure-container");
+      const result = splitText("#delimiter-regexp-container", {
+        splitBy: /\s+/,
+      });
 
-      expect(result).toHaveProperty("chars");
-      expect(result).toHaveProperty("words");
+      expect(result.words.map((word) => word.textContent)).toEqual([
+        "one",
+        "two",
+        "three",
+      ]);
+      expect(container.querySelectorAll(".split-char-delimiter")).toHaveLength(
+        0
+      );
+    });
+
+    it("should split by several delimiters at once", () => {
+      container.id = "delimiter-multiple-container";
+      container.textContent = "and/or well-known";
+
+      const result = splitText("#delimiter-multiple-container", {
+        splitBy: /[-/\s]/g,
+      });
+
+      expect(result.words.map((word) => word.textContent)).toEqual([
+        "and/",
+        "or",
+        "well-",
+        "known",
+      ]);
+    });
+
+    it("should split by a tokenizer function", () => {
+      container.id = "delimiter-function-container";
+      container.textContent = "snake_case_name";
+
+      const result = splitText("#delimiter-function-container", {
+        splitBy: (text) => text.split("_"),
+      });
+
+      expect(result.words.map((word) => word.textContent)).toEqual([
+        "snake_",
+        "case_",
+        "name",
+      ]);
+    });
+
+    it("should attach delimiters to the next word", () => {
+      container.id = "delimiter-next-container";
+      container.textContent = "a-b-c";
+
+      const result = splitText("#delimiter-next-container", {
+        splitBy: "-",
+        delimiter: "next",
+      });
+
+      expect(result.words.map((word) => word.textContent)).toEqual([
+        "a",
+        "-b",
+        "-c",
+      ]);
+      expect(result.chars.map((char) => char.textContent).join("")).toBe(
+        "a-b-c"
+      );
+    });
+
+    it("should keep standalone delimiters between words", () => {
+      container.id = "delimiter-standalone-container";
+      container.textContent = "a-b";
+
+      const result = splitText("#delimiter-standalone-container", {
+        splitBy: "-",
+        delimiter: "standalone",
+        types: "chars,words",
+      });
+
+      expect(result.words.map((word) => word.textContent)).toEqual(["a", "b"]);
+      expect(result.chars).toHaveLength(3);
+      expect(result.chars[1]?.className).toBe("split-char-delimiter");
+      expect(result.chars[1]?.parentElement).toBe(container);
+    });
+
+    it("should keep delimiters without a previous word", () => {
+      container.id = "delimiter-leading-container";
+      container.textContent = ",a,b";
+
+      const result = splitText("#delimiter-leading-container", {
+        splitBy: ",",
+        types: "words",
+      });
+
+      expect(result.words.map((word) => word.textContent)).toEqual(["a,", "b"]);
+      expect(container.textContent).toBe(",a,b");
+    });
+  });
+
+  describe("nested markup", () => {
+    it("should keep inline elements around their words", () => {
+      container.id = "nested-markup-container";
+      container.innerHTML =
+        'Read <a href="/docs">the <em>full</em> docs</a> now';
+
+      const result = splitText("#nested-markup-container");
+
+      expect(result.words.map((word) => word.textContent)).toEqual([
+        "Read",
+        "the",
+        "full",
+        "docs",
+        "now",
+      ]);
+
+      const link = container.querySelector("a");
+      expect(link?.getAttribute("href")).toBe("/docs");
+      expect(link?.querySelectorAll(".split-word")).toHaveLength(3);
+      expect(link?.querySelector("em .split-word")?.textContent).toBe("full");
+      expect(container.textContent).toBe("Read the full docs now");
+    });
+
+    it("should keep spaces at the edges of inline elements", () => {
+      container.id = "nested-spaces-container";
+      container.innerHTML = "<strong>Bold</strong> and <em>italic</em>";
+
+      splitText("#nested-spaces-container");
+
+      expect(container.textContent).toBe("Bold and italic");
+    });
+
+    it("should keep words that cross inline elements whole", () => {
+      container.id = "nested-word-container";
+      container.innerHTML = "un<b>believ</b>able";
+
+      const result = splitText("#nested-word-container");
+
+      expect(result.words).toHaveLength(1);
+      expect(result.words[0]?.querySelector("b")?.textContent).toBe("believ");
+      expect(result.chars.map((char) => char.dataset.wordIndex)).toEqual(
+        Array(12).fill("0")
+      );
+      expect(result.chars[11]?.style.getPropertyValue("--char-index")).toBe(
+        "11"
+      );
+      expect(container.querySelector("b .split-word")).toBeNull();
+    });
+
+    it("should attach punctuation after an inline element to its last word", () => {
+      container.id = "nested-punctuation-container";
+      container.innerHTML = 'Visit <a href="/">our site</a>, now!';
+
+      const result = splitText("#nested-punctuation-container");
+
+      expect(result.words.map((word) => word.textContent)).toEqual([
+        "Visit",
+        "our",
+        "site,",
+        "now!",
+      ]);
+      expect(result.words[2]?.querySelector("a")?.textContent).toBe("site");
+      expect(container.querySelector("a")?.textContent).toBe("our ");
+      expect(container.textContent).toBe("Visit our site, now!");
+    });
+
+    it("should put words that cross inline elements back when only lines are split", () => {
+      container.id = "nested-word-lines-container";
+      container.innerHTML = "un<b>believ</b>able <i>fact</i>";
+
+      splitText("#nested-word-lines-container", { types: "lines" });
+
+      const line = container.querySelector(".split-line");
+      expect(line?.innerHTML).toBe("un<b>believ</b>able <i>fact</i>");
+    });
+
+    it("should re-create wrappers on each line they span", () => {
+      container.id = "nested-lines-container";
+      container.innerHTML = 'one <a href="#two">two three</a> four';
+
+      const restore = stubLineTops({ one: 0, two: 0, three: 20, four: 20 });
+
+      try {
+        const result = splitText("#nested-lines-container");
+
+        expect(result.lines).toHaveLength(2);
+
+        const [first, second] = result.lines;
+        expect(first?.querySelector("a")?.textContent).toBe("two ");
+        expect(second?.querySelector("a")?.textContent).toBe("three");
+        expect(second?.querySelector("a")?.getAttribute("href")).toBe("#two");
+      } finally {
+        restore();
+      }
+    });
+  });
+
+  describe("accessibility strategies", () => {
+    // Approximates the text exposed to assistive technology: aria-hidden
+    // subtrees are skipped, and aria-label is ignored on generic elements
+    const accessibleText = (node: Node): string => {
+      if (node instanceof Element) {
+        const label = node.getAttribute("aria-label");
+
+        if (node.getAttribute("aria-hidden") === "true") {
+          return "";
+        } else if (
+          label !== null &&
+          !["DIV", "P", "SPAN"].includes(node.tagName)
+        ) {
+          return label;
+        }
+      }
+
+      if (node.nodeType === Node.TEXT_NODE) {
+        return node.textContent ?? "";
+      }
+
+      return Array.from(node.childNodes).map(accessibleText).join("");
+    };
+
+    it("should set aria-label by default", () => {
+      container.id = "aria-default-container";
+      container.textContent = "Hello world";
+
+      splitText("#aria-default-container");
+
+      expect(container.getAttribute("aria-label")).toBe("Hello world");
+      expect(container.querySelector("[aria-hidden]")).toBeNull();
+    });
+
+    it("should hide split content behind a visually hidden copy", () => {
+      container.id = "aria-hidden-container";
+      container.innerHTML = 'Read <a href="/docs">the docs</a>';
+
+      const result = splitText("#aria-hidden-container", { aria: "hidden" });
+
+      expect(container.hasAttribute("aria-label")).toBe(false);
+      expect(accessibleText(container)).toBe("Read the docs");
+
+      const copy = container.firstElementChild as HTMLElement;
+      expect(copy.className).toBe("split-sr-only");
+      expect(copy.style.position).toBe("absolute");
+      expect(copy.querySelector("a")?.getAttribute("href")).toBe("/docs");
+      expect(copy.querySelector("a")?.hasAttribute("tabindex")).toBe(false);
+
+      for (const line of result.lines) {
+        expect(line.getAttribute("aria-hidden")).toBe("true");
+        expect(line.closest("[aria-hidden]")).toBe(line);
+      }
+
+      const visibleLink = result.lines[0]?.querySelector("a");
+      expect(visibleLink?.getAttribute("tabindex")).toBe("-1");
+    });
+
+    it("should keep ids out of the visually hidden copy", () => {
+      container.id = "aria-ids-container";
+      container.innerHTML = 'Read <a id="cta" href="/docs">the docs</a>';
+
+      splitText("#aria-ids-container", { aria: "hidden" });
+
+      const copy = container.firstElementChild as HTMLElement;
+      expect(container.querySelectorAll("#cta")).toHaveLength(1);
+      expect(copy.querySelector("[id]")).toBeNull();
+      expect(copy.querySelector("a")?.getAttribute("href")).toBe("/docs");
+    });
+
+    it("should use aria-label for roles that support it in auto mode", () => {
+      const heading = document.createElement("h2");
+      heading.id = "aria-auto-heading";
+      heading.textContent = "Hello world";
+      container.appendChild(heading);
+
+      splitText("#aria-auto-heading", { aria: "auto" });
+
+      expect(heading.getAttribute("aria-label")).toBe("Hello world");
+      expect(heading.querySelector("[aria-hidden]")).toBeNull();
+      expect(accessibleText(heading)).toBe("Hello world");
+    });
+
+    it("should use a visually hidden copy for generic elements in auto mode", () => {
+      const paragraph = document.createElement("p");
+      paragraph.id = "aria-auto-paragraph";
+      paragraph.textContent = "Hello world";
+      container.appendChild(paragraph);
+
+      splitText("#aria-auto-paragraph", { aria: "auto" });
+
+      expect(paragraph.hasAttribute("aria-label")).toBe(false);
+      expect(paragraph.querySelector(".split-sr-only")).not.toBeNull();
+      expect(accessibleText(paragraph)).toBe("Hello world");
+    });
+
+    it("should respect an explicit role in auto mode", () => {
+      container.id = "aria-role-container";
+      container.setAttribute("role", "heading");
+      container.textContent = "Hello world";
+
+      splitText("#aria-role-container", { aria: "auto" });
+
+      expect(container.getAttribute("aria-label")).toBe("Hello world");
+    });
+
+    it("should leave accessibility alone with none", () => {
+      container.id = "aria-none-container";
+      container.textContent = "Hello world";
+
+      splitText("#aria-none-container", { aria: "none" });
+
+      expect(container.hasAttribute("aria-label")).toBe(false);
+      expect(container.querySelector("[aria-hidden]")).toBeNull();
+    });
+
+    it("should remove the visually hidden copy on revert", () => {
+      container.id = "aria-revert-container";
+      container.innerHTML = "Hello <em>world</em>";
+
+      const result = splitText("#aria-revert-container", { aria: "hidden" });
+      result.revert();
+
+      expect(container.innerHTML).toBe("Hello <em>world</em>");
+    });
+  });
+
+  describe("revert", () => {
+    it("should restore the original child nodes", () => {
+      container.id = "revert-container";
+      container.innerHTML = "Hello <em>world</em>";
+      const originalNodes = Array.from(container.childNodes);
+
+      const result = splitText("#revert-container");
+      result.revert();
+
+      expect(Array.from(container.childNodes)).toEqual(originalNodes);
+      expect(container.innerHTML).toBe("Hello <em>world</em>");
+    });
+
+    it("should remove the aria-label when there was none", () => {
+      container.id = "revert-aria-container";
+      container.textContent = "Hello world";
+
+      const result = splitText("#revert-aria-container");
+      result.revert();
+
+      expect(container.hasAttribute("aria-label")).toBe(false);
+    });
+
+    it("should restore the previous aria-label and inline styles", () => {
+      container.id = "revert-attributes-container";
+      container.setAttribute("aria-label", "Original label");
+      container.textContent = "Hello world";
+      const originalStyle = container.getAttribute("style");
+
+      const result = splitText("#revert-attributes-container");
+      container.style.opacity = "0";
+      result.revert();
+
+      expect(container.getAttribute("aria-label")).toBe("Original label");
+      expect(container.getAttribute("style")).toBe(originalStyle);
+    });
+  });
+
+  describe("splitting again", () => {
+    it("should split from the original content", () => {
+      container.id = "split-again-container";
+      container.innerHTML = "Hello <em>world</em>";
+
+      splitText("#split-again-container");
+      const result = splitText("#split-again-container");
+
+      expect(result.words).toHaveLength(2);
+      expect(result.chars).toHaveLength(10);
+      expect(container.querySelectorAll(".split-line")).toHaveLength(1);
+      expect(
+        container.querySelectorAll(".split-word .split-word")
+      ).toHaveLength(0);
+      expect(container.getAttribute("aria-label")).toBe("Hello world");
+    });
+
+    it("should apply new options", () => {
+      container.id = "split-again-options-container";
+      container.textContent = "Hello world";
+
+      splitText("#split-again-options-container");
+      const result = splitText("#split-again-options-container", {
+        types: "words",
+      });
+
+      expect(result.words).toHaveLength(2);
+      expect(container.querySelector(".split-char")).toBeNull();
+      expect(container.querySelector(".split-line")).toBeNull();
+    });
+
+    it("should restore the original markup when reverting the latest split", () => {
+      container.id = "split-again-revert-container";
+      container.setAttribute("aria-label", "Greeting");
+      container.innerHTML = "Hello <em>world</em>";
+
+      const first = splitText("#split-again-revert-container");
+      const second = splitText("#split-again-revert-container");
+
+      first.revert();
+      expect(container.querySelectorAll(".split-word")).toHaveLength(2);
+
+      second.revert();
+      expect(container.innerHTML).toBe("Hello <em>world</em>");
+      expect(container.getAttribute("aria-label")).toBe("Greeting");
+    });
+
+    it("should split replaced content instead of reverting", () => {
+      container.id = "split-again-replaced-container";
+      container.textContent = "Old text";
+
+      const first = splitText("#split-again-replaced-container");
+      container.textContent = "New text here";
+      const result = splitText("#split-again-replaced-container");
+
+      expect(result.words.map((word) => word.textContent)).toEqual([
+        "New",
+        "text",
+        "here",
+      ]);
+
+      first.revert();
+      expect(container.querySelectorAll(".split-word")).toHaveLength(3);
+    });
+  });
+
+  describe("autoSplit", () => {
+    const OriginalResizeObserver = globalThis.ResizeObserver;
+    let resize: (width: number) => void;
+    let disconnected: boolean;
+
+    beforeEach(() => {
+      disconnected = false;
+
+      globalThis.ResizeObserver = class {
+        constructor(callback: ResizeObserverCallback) {
+          resize = (width) =>
+            callback(
+              [{ contentRect: { width } } as ResizeObserverEntry],
+              this as unknown as ResizeObserver
+            );
+        }
+
+        observe() {
+          resize(200);
+        }
+
+        unobserve() {}
+
+        disconnect() {
+          disconnected = true;
+        }
+      } as unknown as typeof ResizeObserver;
+    });
+
+    afterEach(() => {
+      globalThis.ResizeObserver = OriginalResizeObserver;
+    });
+
+    const wait = (ms: number) =>
+      new Promise((resolve) => setTimeout(resolve, ms));
+
+    it("should call onSplit after the initial split", () => {
+      container.id = "on-split-container";
+      container.textContent = "Hello world";
+      const calls: unknown[] = [];
+
+      const result = splitText("#on-split-container", {
+        onSplit: (splitResult) => calls.push(splitResult),
+      });
+
+      expect(calls).toEqual([result]);
+    });
+
+    it("should re-split from the original content when the width changes", async () => {
+      container.id = "auto-split-container";
+      container.innerHTML = "Hello <em>world</em>";
+      const calls: unknown[] = [];
+
+      const result = splitText("#auto-split-container", {
+        autoSplit: true,
+        onSplit: (splitResult) => calls.push(splitResult),
+      });
+      const [firstWord] = result.words;
+
+      resize(300);
+      resize(320);
+      await wait(150);
+
+      expect(calls).toHaveLength(2);
+      expect(calls[1]).toBe(result);
+      expect(result.words).toHaveLength(2);
+      expect(result.words[0]).not.toBe(firstWord);
+      expect(result.words[0]?.isConnected).toBe(true);
+      expect(container.querySelectorAll(".split-word")).toHaveLength(2);
+      expect(container.querySelector("em")?.textContent).toBe("world");
+    });
+
+    it("should keep styles set after splitting when re-splitting", async () => {
+      container.id = "auto-split-style-container";
+      container.textContent = "Hello world";
+      const style = container.getAttribute("style");
+
+      const result = splitText("#auto-split-style-container", {
+        autoSplit: true,
+      });
+      container.style.visibility = "visible";
+
+      resize(300);
+      await wait(150);
+
+      expect(container.style.visibility).toBe("visible");
+      expect(container.style.getPropertyValue("--word-total")).toBe("2");
+
+      result.revert();
+
+      expect(container.getAttribute("style")).toBe(style);
+    });
+
+    it("should ignore height-only resizes", async () => {
+      container.id = "auto-split-height-container";
+      container.textContent = "Hello world";
+      let calls = 0;
+
+      splitText("#auto-split-height-container", {
+        autoSplit: true,
+        onSplit: () => calls++,
+      });
+
+      resize(200);
+      await wait(150);
+
+      expect(calls).toBe(1);
+    });
+
+    it("should stop observing on revert", async () => {
+      container.id = "auto-split-revert-container";
+      container.textContent = "Hello world";
+      let calls = 0;
+
+      const result = splitText("#auto-split-revert-container", {
+        autoSplit: true,
+        onSplit: () => calls++,
+      });
+
+      resize(300);
+      result.revert();
+      await wait(150);
+
+      expect(disconnected).toBe(true);
+      expect(calls).toBe(1);
+      expect(container.innerHTML).toBe("Hello world");
+    });
+
+    it("should stop re-splitting once the content is replaced and split again", async () => {
+      container.id = "auto-split-replaced-container";
+      container.textContent = "Old text";
+      let calls = 0;
+
+      splitText("#auto-split-replaced-container", {
+        autoSplit: true,
+        onSplit: () => calls++,
+      });
+      resize(300);
+
+      container.textContent = "New content";
+      splitText("#auto-split-replaced-container");
+      await wait(150);
+
+      expect(disconnected).toBe(true);
+      expect(calls).toBe(1);
+      expect(container.textContent).toBe("New content");
+      expect(container.querySelectorAll(".split-word")).toHaveLength(2);
+    });
+  });
+
+  describe("result tree", () => {
+    it("should nest chars in words in lines", () => {
+      container.id = "tree-container";
+      container.innerHTML = "ab cd<br>ef";
+
+      const { tree, lines, words, chars } = splitText("#tree-container");
+
+      expect(tree.map((line) => line.element)).toEqual(lines);
+      expect(tree.map((line) => line.text)).toEqual(["ab cd", "ef"]);
+
+      const [firstLine, secondLine] = tree;
+      const word = firstLine?.children[1];
+      const char = word?.children[1];
+
+      expect(word?.type).toBe("words");
+      expect(word?.element).toBe(words[1] as HTMLElement);
+      expect(word?.text).toBe("cd");
+      expect(word?.parent).toBe(firstLine as SplitNode);
+      expect(char?.element).toBe(chars[3] as HTMLElement);
+      expect(char?.index).toBe(3);
+      expect(char?.localIndex).toBe(1);
+      expect(char?.parent).toBe(word as SplitNode);
+      expect(secondLine?.children[0]?.index).toBe(2);
+      expect(secondLine?.children[0]?.localIndex).toBe(0);
+    });
+
+    it("should measure the bounding box of each node", () => {
+      container.id = "tree-rect-container";
+      container.textContent = "Hi";
+
+      const [line] = splitText("#tree-rect-container").tree;
+
+      expect(line?.rect).toEqual(
+        (line?.element as HTMLElement).getBoundingClientRect()
+      );
+    });
+
+    it("should nest the requested levels only", () => {
+      container.id = "tree-types-container";
+      container.textContent = "a-b";
+
+      const { tree } = splitText("#tree-types-container", {
+        types: "chars,words",
+        splitBy: "-",
+        delimiter: "standalone",
+      });
+
+      expect(tree.map((node) => [node.type, node.text])).toEqual([
+        ["words", "a"],
+        ["chars", "-"],
+        ["words", "b"],
+      ]);
+      expect(tree[1]?.parent).toBeUndefined();
+      expect(tree[2]?.children[0]?.text).toBe("b");
+    });
+
+    it("should attach standalone delimiters to their line", () => {
+      container.id = "tree-delimiter-container";
+      container.textContent = "a-b";
+
+      const { tree } = splitText("#tree-delimiter-container", {
+        splitBy: "-",
+        delimiter: "standalone",
+      });
+
+      expect(tree).toHaveLength(1);
+      expect(tree[0]?.children.map((node) => node.text)).toEqual([
+        "a",
+        "-",
+        "b",
+      ]);
+      expect(tree[0]?.children.map((node) => node.localIndex)).toEqual([
+        0, 1, 2,
+      ]);
+    });
+  });
+
+  describe("return value structure", () => {
+    it("should return object with chars, words, and lines arrays", () => {
+      container.id = "return-structure-container";
+      container.textContent = "Test text";
+
+      const result = splitText("#return-structure-container");
+
+      expect(result).toHaveProperty("chars");
+      expect(result).toHaveProperty("words");
       expect(result).toHaveProperty("lines");
+      expect(result).toHaveProperty("tree");
+      expect(result).toHaveProperty("revert");
       expect(Array.isArray(result.chars)).toBe(true);
       expect(Array.isArray(result.words)).toBe(true);
       expect(Array.isArray(result.lines)).toBe(true);
@@ -350,3 +1934,277 @@ describe("splitText", () => {
     });
   });
 });
+
+describe("splitTextAll", () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    container.innerHTML =
+      '<h2 class="card-title">First card</h2><h2 class="card-title">Second one</h2>';
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    document.body.removeChild(container);
+  });
+
+  it("should split every element matched by a selector", () => {
+    const result = splitTextAll(".card-title");
+
+    expect(result.results).toHaveLength(2);
+    expect(result.results[1]?.words[0]?.textContent).toBe("Second");
+    expect(result.words.map((word) => word.textContent)).toEqual([
+      "First",
+      "card",
+      "Second",
+      "one",
+    ]);
+    expect(result.chars).toHaveLength(18);
+    expect(result.lines).toHaveLength(2);
+    expect(result.tree.map((line) => line.text)).toEqual([
+      "First card",
+      "Second one",
+    ]);
+  });
+
+  it("should accept a NodeList", () => {
+    const result = splitTextAll(container.querySelectorAll(".card-title"));
+
+    expect(result.results).toHaveLength(2);
+  });
+
+  it("should mark split nodes with their element index", () => {
+    const result = splitTextAll(".card-title");
+
+    expect(result.words[0]?.dataset.elementIndex).toBe("0");
+    expect(result.chars[17]?.dataset.elementIndex).toBe("1");
+    expect(result.lines[1]?.dataset.elementIndex).toBe("1");
+  });
+
+  it("should revert every element", () => {
+    const result = splitTextAll(".card-title");
+    result.revert();
+
+    expect(container.innerHTML).toBe(
+      '<h2 class="card-title">First card</h2><h2 class="card-title">Second one</h2>'
+    );
+  });
+
+  it("should throw error when no element matches", () => {
+    expect(() => {
+      splitTextAll(".missing-title");
+    }).toThrow("Element not found");
+  });
+
+  it("should force a single layout for all elements", () => {
+    container.innerHTML = Array.from(
+      { length: 20 },
+      (_, index) => `<p class="article">Paragraph ${index} of the article</p>`
+    ).join("");
+
+    const { getLayouts, restore } = countLayouts();
+
+    try {
+      const result = splitTextAll(".article");
+
+      expect(result.lines).toHaveLength(20);
+      expect(getLayouts()).toBe(1);
+    } finally {
+      restore();
+    }
+  });
+
+  it("should force a layout per element when split one by one", () => {
+    container.innerHTML = Array.from(
+      { length: 20 },
+      (_, index) =>
+        `<p class="article" id="article-${index}">Paragraph ${index}</p>`
+    ).join("");
+
+    const { getLayouts, restore } = countLayouts();
+
+    try {
+      for (let index = 0; index < 20; index++) {
+        splitText(`#article-${index}`);
+      }
+
+      expect(getLayouts()).toBe(20);
+    } finally {
+      restore();
+    }
+  });
+});
+
+describe("splitTextAllAsync", () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    container.innerHTML = Array.from(
+      { length: 5 },
+      (_, index) => `<p class="article">Paragraph ${index}</p>`
+    ).join("");
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    document.body.removeChild(container);
+  });
+
+  it("should split every element", async () => {
+    const result = await splitTextAllAsync(".article");
+
+    expect(result.results).toHaveLength(5);
+    expect(result.words).toHaveLength(10);
+    expect(result.words[9]?.dataset.elementIndex).toBe("4");
+  });
+
+  it("should split in chunks and report progress", async () => {
+    const progress: [number, number][] = [];
+    const { getLayouts, restore } = countLayouts();
+
+    try {
+      const result = await splitTextAllAsync(".article", {
+        chunkSize: 2,
+        onProgress: (done, total) => progress.push([done, total]),
+      });
+
+      expect(progress).toEqual([
+        [2, 5],
+        [4, 5],
+        [5, 5],
+      ]);
+      expect(result.lines).toHaveLength(5);
+      expect(getLayouts()).toBe(3);
+    } finally {
+      restore();
+    }
+  });
+
+  it("should leave later chunks unsplit until the browser is idle", async () => {
+    const splitLines: number[] = [];
+
+    await splitTextAllAsync(".article", {
+      chunkSize: 2,
+      onProgress: () =>
+        splitLines.push(container.querySelectorAll(".split-line").length),
+    });
+
+    expect(splitLines).toEqual([2, 4, 5]);
+  });
+
+  it("should reject an invalid chunk size", async () => {
+    await expect(
+      splitTextAllAsync(".article", { chunkSize: 0 })
+    ).rejects.toThrow("Invalid chunk size 0");
+  });
+
+  it("should reject when no element matches", async () => {
+    await expect(splitTextAllAsync(".missing-title")).rejects.toThrow(
+      "Element not found"
+    );
+  });
+});
+
+describe("splitTextAsync", () => {
+  let container: HTMLElement;
+  let fonts: EventTarget & { loaded: string[]; load: FontFaceSet["load"] };
+  let loadFont: () => void;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    container.id = "async-container";
+    container.textContent = "Hello world";
+    document.body.appendChild(container);
+
+    // Fonts load once loadFont is called
+    const loaded = new Promise<void>((resolve) => {
+      loadFont = resolve;
+    });
+
+    fonts = Object.assign(new EventTarget(), {
+      loaded: [] as string[],
+      load: async (font: string) => {
+        await loaded;
+        fonts.loaded.push(font);
+        return [];
+      },
+    });
+
+    Object.defineProperty(document, "fonts", {
+      configurable: true,
+      value: fonts,
+    });
+  });
+
+  afterEach(() => {
+    document.body.removeChild(container);
+    Reflect.deleteProperty(document, "fonts");
+  });
+
+  const wait = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  it("should split once the fonts of the element have loaded", async () => {
+    container.innerHTML = "Hello <em>world</em>";
+
+    const promise = splitTextAsync("#async-container");
+    await wait(10);
+
+    expect(container.querySelector(".split-word")).toBeNull();
+
+    loadFont();
+    const result = await promise;
+
+    expect(fonts.loaded.length).toBeGreaterThan(0);
+    expect(result.words).toHaveLength(2);
+    expect(result.words[0]?.isConnected).toBe(true);
+  });
+
+  it("should split when fonts fail to load", async () => {
+    fonts.load = () => Promise.reject(new Error("Failed to load"));
+
+    const result = await splitTextAsync("#async-container");
+
+    expect(result.words).toHaveLength(2);
+  });
+
+  it("should split right away without the Font Loading API", async () => {
+    Reflect.deleteProperty(document, "fonts");
+
+    const result = await splitTextAsync("#async-container");
+
+    expect(result.words).toHaveLength(2);
+  });
+
+  it("should reject when the element is not found", async () => {
+    await expect(splitTextAsync("#non-existent-element")).rejects.toThrow(
+      "Element not found"
+    );
+  });
+
+  it("should re-split with autoSplit when a web font loads later", async () => {
+    const calls: unknown[] = [];
+
+    const result = splitText("#async-container", {
+      autoSplit: true,
+      onSplit: (splitResult) => calls.push(splitResult),
+    });
+    const [firstWord] = result.words;
+
+    fonts.dispatchEvent(new Event("loadingdone"));
+    await wait(150);
+
+    expect(calls).toHaveLength(2);
+    expect(result.words[0]).not.toBe(firstWord as HTMLElement);
+    expect(result.words[0]?.isConnected).toBe(true);
+
+    result.revert();
+    fonts.dispatchEvent(new Event("loadingdone"));
+    await wait(150);
+
+    expect(calls).toHaveLength(2);
+    expect(container.textContent).toBe("Hello world");
+  });
+});
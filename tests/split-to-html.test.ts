@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { splitText, splitToHTML } from "../src/index";
+import type { SplitTextOptions } from "../src/index";
+
+describe("splitToHTML", () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement("div");
+    container.id = "html-container";
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    document.body.removeChild(container);
+  });
+
+  // Splits the same text in the DOM, without lines, for comparison
+  const splitInDOM = (text: string, options: SplitTextOptions = {}) => {
+    container.textContent = text;
+    splitText("#html-container", {
+      types: "chars,words",
+      aria: "none",
+      ...options,
+    });
+    return container.innerHTML;
+  };
+
+  describe("matching the DOM splitter", () => {
+    const cases: [string, string, SplitTextOptions][] = [
+      ["plain text", "Hello world", {}],
+      ["collapsed spaces", "  Hello    world ", {}],
+      ["delimiters", "apple,banana,,cherry,", { splitBy: "," }],
+      ["graphemes", "Hi 👨‍👩‍👧 café", {}],
+      ["words only", "Hello world", { types: "words" }],
+      ["chars only", "Hello world", { types: "chars" }],
+      ["segmented words", "「こんにちは、世界！」", { locale: "ja" }],
+      [
+        "custom classes",
+        "Hello world",
+        { classNames: { word: "w", char: "c" }, inline: true },
+      ],
+      ["word masks", "Hello world", { mask: "words" }],
+      ["char masks", "a,b", { mask: "chars", splitBy: "," }],
+      ["regular expressions", "and/or well-known", { splitBy: /[-/\s]/ }],
+      [
+        "tokenizer functions",
+        "snake_case",
+        { splitBy: (text) => text.split("_") },
+      ],
+      ["next delimiters", "-a-b c-", { splitBy: "-", delimiter: "next" }],
+      [
+        "standalone delimiters",
+        "a-b - c",
+        { splitBy: "-", delimiter: "standalone", mask: "chars" },
+      ],
+      [
+        "tags and attributes",
+        "a-b c",
+        {
+          splitBy: /[-\s]/,
+          mask: "words",
+          tags: { word: "em", char: "i", mask: "b" },
+          attributes: {
+            word: { part: "word" },
+            char: { "data-x": '"1"' },
+            mask: { part: "mask" },
+          },
+        },
+      ],
+      ["no inline styles", "Hi you", { inlineStyles: false, mask: "chars" }],
+      [
+        "no inline styles for chars only",
+        "Hi you",
+        { inlineStyles: false, types: "chars" },
+      ],
+    ];
+
+    for (const [name, text, options] of cases) {
+      it(`should match for ${name}`, () => {
+        expect(splitToHTML(text, options)).toBe(splitInDOM(text, options));
+      });
+    }
+  });
+
+  it("should emit classes, indices and display styles", () => {
+    expect(splitToHTML("Hi you", { types: "words" })).toBe(
+      '<span class="split-word" data-index="0" style="display: inline-block; --word-index: 0;" data-word-index="0">Hi</span> ' +
+        '<span class="split-word" data-index="1" style="display: inline-block; --word-index: 1;" data-word-index="1">you</span>'
+    );
+  });
+
+  it("should keep chars of joining letters inline", () => {
+    expect(splitToHTML("سلام", { types: "chars" })).toContain(
+      '<span class="split-char" data-index="0" style="display: inline; --char-index: 0;" data-char-index="0">س</span>'
+    );
+  });
+
+  it("should escape text and class names", () => {
+    expect(
+      splitToHTML("<b>&</b>", { types: "words", classNames: { word: '"x"' } })
+    ).toBe(
+      '<span class="&quot;x&quot;" data-index="0" style="display: inline-block; --word-index: 0;" data-word-index="0">&lt;b&gt;&amp;&lt;/b&gt;</span>'
+    );
+  });
+
+  it("should ignore lines", () => {
+    expect(splitToHTML("Hello", { types: "words,lines" })).toBe(
+      splitToHTML("Hello", { types: "words" })
+    );
+  });
+
+  it("should not depend on the DOM", () => {
+    const { document: globalDocument } = globalThis;
+
+    Object.assign(globalThis, { document: undefined });
+
+    try {
+      expect(splitToHTML("Hello world")).toContain("split-char");
+    } finally {
+      Object.assign(globalThis, { document: globalDocument });
+    }
+  });
+});
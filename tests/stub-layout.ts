@@ -0,0 +1,156 @@
+/**
+ * Stubs the client rects of every HTML element, so that tests can lay out text
+ * on lines. Each rect is given by its top and bottom, and for vertical text
+ * its left and right.
+ * @param getRects - Returns the rects of an element
+ * @returns A function that restores the original client rects
+ */
+export function stubClientRects(
+  getRects: (element: HTMLElement) => {
+    top?: number;
+    bottom?: number;
+    left?: number;
+    right?: number;
+  }[]
+) {
+  const descriptor = Object.getOwnPropertyDescriptor(
+    HTMLElement.prototype,
+    "getClientRects"
+  );
+
+  Object.defineProperty(HTMLElement.prototype, "getClientRects", {
+    configurable: true,
+    writable: true,
+    value(this: HTMLElement) {
+      return getRects(this).map(
+        ({ top = 0, bottom = 0, left = 0, right = 0 }) => ({
+          x: left,
+          y: top,
+          top,
+          bottom,
+          left,
+          right,
+          width: right - left,
+          height: bottom - top,
+        })
+      );
+    },
+  });
+
+  return () => {
+    if (descriptor) {
+      Object.defineProperty(
+        HTMLElement.prototype,
+        "getClientRects",
+        descriptor
+      );
+    } else {
+      delete (HTMLElement.prototype as Partial<HTMLElement>).getClientRects;
+    }
+  };
+}
+
+/**
+ * Stubs the client rects of every HTML element from the top of the line its
+ * text is on, for a 16 pixel high line.
+ * @param tops - The top of each text
+ * @returns A function that restores the original client rects
+ */
+export function stubLineTops(tops: Record<string, number>) {
+  return stubClientRects((element) => {
+    const top = tops[element.textContent ?? ""] ?? 0;
+
+    return [{ top, bottom: top + 16 }];
+  });
+}
+
+/**
+ * Stubs the client rects of every HTML element from the left of the column its
+ * text is on, for a 16 pixel wide column of vertical text.
+ * @param lefts - The left of each text
+ * @returns A function that restores the original client rects
+ */
+export function stubColumnLefts(lefts: Record<string, number>) {
+  return stubClientRects((element) => {
+    const left = lefts[element.textContent ?? ""] ?? 0;
+
+    return [{ left, right: left + 16 }];
+  });
+}
+
+/**
+ * Stubs canvas text measurement, so that tests can measure kerning. Every char
+ * is 10 pixels wide, and each kerned pair is narrower by its kerning.
+ * @param kerning - The kerning of each pair of chars, in pixels
+ * @returns The fonts text was measured in, and a function that restores the original canvas
+ */
+export function stubCanvasText(kerning: Record<string, number>) {
+  const descriptor = Object.getOwnPropertyDescriptor(
+    HTMLCanvasElement.prototype,
+    "getContext"
+  );
+  const fonts: string[] = [];
+
+  Object.defineProperty(HTMLCanvasElement.prototype, "getContext", {
+    configurable: true,
+    writable: true,
+    value() {
+      return {
+        font: "",
+        measureText(this: { font: string }, text: string) {
+          fonts.push(this.font);
+
+          return { width: text.length * 10 + (kerning[text] ?? 0) };
+        },
+      };
+    },
+  });
+
+  const restore = () => {
+    if (descriptor) {
+      Object.defineProperty(
+        HTMLCanvasElement.prototype,
+        "getContext",
+        descriptor
+      );
+    } else {
+      delete (HTMLCanvasElement.prototype as Partial<HTMLCanvasElement>)
+        .getContext;
+    }
+  };
+
+  return { fonts, restore };
+}
+
+/**
+ * Counts the layouts that measuring forces, like a browser lays out the page
+ * when an element is measured after the DOM has changed. Every HTML element is
+ * laid out on a single 16 pixel high line.
+ * @returns A function that returns the number of forced layouts, and a function that restores the original client rects
+ */
+export function countLayouts() {
+  const observer = new MutationObserver(() => {});
+  let layouts = 0;
+
+  observer.observe(document.body, {
+    subtree: true,
+    childList: true,
+    attributes: true,
+    characterData: true,
+  });
+
+  const restoreRects = stubClientRects(() => {
+    if (observer.takeRecords().length > 0) {
+      layouts++;
+    }
+
+    return [{ top: 0, bottom: 16 }];
+  });
+
+  const restore = () => {
+    observer.disconnect();
+    restoreRects();
+  };
+
+  return { getLayouts: () => layouts, restore };
+}